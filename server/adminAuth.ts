@@ -1,52 +1,137 @@
 import type { RequestHandler } from "express";
 import { storage } from "./storage";
+import { ROLE_PERMISSIONS, type AdminRole, type Permission } from "@shared/schema";
 
-// Simplified admin system - just check isAdmin boolean field
+export type AdminContext = {
+  userId: string;
+  email: string | null;
+  role: AdminRole;
+  permissions: Permission[];
+};
+
+function superAdminEmails(): string[] {
+  return (process.env.SUPER_ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+// Resolve the signed-in user's staff role and effective permissions
+async function loadAdminContext(userId: string): Promise<AdminContext | undefined> {
+  const user = await storage.getUser(userId);
+  if (!user) return undefined;
+
+  const adminUser = await storage.getAdminUserByUserId(userId);
+  if (adminUser) {
+    if (!adminUser.isActive) return undefined;
+    const role = (adminUser.role ?? "admin") as AdminRole;
+    const granted = new Set<Permission>([
+      ...(ROLE_PERMISSIONS[role] ?? []),
+      ...((adminUser.permissions ?? []) as Permission[]),
+    ]);
+    return { userId, email: user.email, role, permissions: Array.from(granted) };
+  }
+
+  // Legacy admins flagged on users.isAdmin before adminUsers existed keep the admin role;
+  // SUPER_ADMIN_EMAILS bootstraps the first super_admin so roles can be managed at all
+  if (user.isAdmin) {
+    const role: AdminRole = user.email && superAdminEmails().includes(user.email.toLowerCase()) ? "super_admin" : "admin";
+    return { userId, email: user.email, role, permissions: [...ROLE_PERMISSIONS[role]] };
+  }
+
+  return undefined;
+}
 
-// Main admin middleware
+// Staff middleware: any active admin, super_admin or counselor
 export const isAdmin: RequestHandler = async (req: any, res, next) => {
-  console.log("🔒 Admin middleware executing for:", req.path);
-  
   try {
-    // Check if user is authenticated (Supabase style)
     if (!req.user?.id) {
-      console.log("❌ Admin access denied: User not authenticated");
       return res.status(401).json({ message: "Unauthorized" });
     }
 
-    const userId = req.user.id;
-    const user = await storage.getUser(userId);
-    
-    if (!user) {
-      console.log("❌ Admin access denied: User not found");
-      return res.status(403).json({ message: "Access denied. User not found." });
+    const adminUser = await loadAdminContext(req.user.id);
+    if (!adminUser) {
+      return res.status(403).json({ message: "Admin access required" });
     }
 
-    // Simple check: is the user marked as admin?
-    if (!user.isAdmin) {
-      console.log("🚫 Admin access denied: User is not an admin:", user.email, "isAdmin:", user.isAdmin);
-      return res.status(403).json({ message: "Access denied. Admin privileges required." });
+    req.adminUser = adminUser;
+    next();
+  } catch (error) {
+    console.error("❌ Admin auth error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+};
+
+// Permission guard for admin routes; use after requireAuth
+export function requirePermission(permission: Permission): RequestHandler {
+  return async (req: any, res, next) => {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const adminUser: AdminContext | undefined = req.adminUser ?? await loadAdminContext(req.user.id);
+      if (!adminUser) {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      if (!adminUser.permissions.includes(permission)) {
+        return res.status(403).json({ message: `Missing permission: ${permission}` });
+      }
+
+      req.adminUser = adminUser;
+      next();
+    } catch (error) {
+      console.error("❌ Admin auth error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  };
+}
+
+// Counselor portal guard: the signed-in user needs the counselor role and a linked, active counselor profile.
+// Portal routes only ever read req.counselor, so a counselor can't reach anyone else's records.
+export const requireCounselor: RequestHandler = async (req: any, res, next) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ message: "Unauthorized" });
     }
 
-    // Add admin info to request for use in routes
-    req.adminUser = {
-      userId,
-      email: user.email,
-      isAdmin: true
-    };
+    const adminUser = await loadAdminContext(req.user.id);
+    if (!adminUser || adminUser.role !== "counselor") {
+      return res.status(403).json({ message: "Counselor access required" });
+    }
 
-    console.log("✅ Admin access granted:", user.email);
+    const counselor = await storage.getCounselorByUserId(req.user.id);
+    if (!counselor || counselor.isActive === false) {
+      return res.status(403).json({ message: "No counselor profile is linked to this account" });
+    }
+
+    req.adminUser = adminUser;
+    req.counselor = counselor;
     next();
   } catch (error) {
-    console.error("❌ Admin auth error:", error);
+    console.error("❌ Counselor auth error:", error);
     return res.status(500).json({ message: "Internal server error" });
   }
 };
 
-// Simple admin check - no complex permissions needed
 export const requireAdmin: RequestHandler = (req: any, res, next) => {
-  if (!req.adminUser || !req.adminUser.isAdmin) {
+  if (!req.adminUser) {
     return res.status(403).json({ message: "Admin authentication required" });
   }
   next();
-};
\ No newline at end of file
+};
+
+// Counselors only work their own caseload; other staff roles see everything
+export function isScopedToOwnRecords(adminUser: AdminContext): boolean {
+  return adminUser.role === "counselor";
+}
+
+// Counselors manage only their own profile, availability and appointments
+export function canManageCounselor(adminUser: AdminContext, counselor: { userId: string | null }): boolean {
+  return !isScopedToOwnRecords(adminUser) || counselor.userId === adminUser.userId;
+}
+
+export function canAccessAssigned(adminUser: AdminContext, assignedTo: string | null | undefined): boolean {
+  return !isScopedToOwnRecords(adminUser) || assignedTo === adminUser.userId;
+}
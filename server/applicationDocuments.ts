@@ -0,0 +1,89 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import type { Response } from "express";
+import { documentStore } from "./documentStorage";
+import { normalizeApplicationStatus } from "./applicationStatus";
+import {
+  APPLICATION_STATUSES,
+  type ApplicationDocument,
+  type ApplicationStatus,
+  type DocumentChecklist,
+  type DocumentType,
+} from "@shared/schema";
+
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+// Accepted formats and the leading bytes every such file starts with
+const ALLOWED_MIME_TYPES: Record<string, number[]> = {
+  "application/pdf": [0x25, 0x50, 0x44, 0x46], // %PDF
+  "image/jpeg": [0xff, 0xd8, 0xff],
+  "image/png": [0x89, 0x50, 0x4e, 0x47],
+};
+
+// Returns an error message, or undefined when the upload is acceptable
+export function validateDocumentUpload(data: Buffer, mimeType: string): string | undefined {
+  if (data.length === 0) return "File is empty";
+  if (data.length > MAX_DOCUMENT_BYTES) return `File exceeds the ${MAX_DOCUMENT_BYTES / (1024 * 1024)}MB limit`;
+
+  const signature = ALLOWED_MIME_TYPES[mimeType];
+  if (!signature) return `Unsupported file type ${mimeType}; upload a PDF, JPEG or PNG`;
+  if (!signature.every((byte, i) => data[i] === byte)) return `File content does not match ${mimeType}`;
+
+  return undefined;
+}
+
+export function buildStorageKey(applicationId: number, fileName: string): string {
+  const extension = path.extname(fileName).toLowerCase().replace(/[^.a-z0-9]/g, "");
+  return `applications/${applicationId}/${randomUUID()}${extension}`;
+}
+
+// Documents that must be on file once an application reaches each stage; later stages inherit earlier ones
+const REQUIRED_DOCUMENTS: Partial<Record<ApplicationStatus, DocumentType[]>> = {
+  "Submitted": ["passport", "transcript", "english_test", "sop"],
+  "Offer Received": ["financial_statement"],
+  "CAS Issued": ["tb_certificate"],
+};
+
+export function requiredDocumentsFor(status: string | null): DocumentType[] {
+  const current = normalizeApplicationStatus(status) ?? "Submitted";
+  // Terminal statuses sit at the end of the pipeline list and simply show the full checklist
+  const stageIndex = APPLICATION_STATUSES.indexOf(current);
+  const required = new Set<DocumentType>();
+
+  APPLICATION_STATUSES.slice(0, stageIndex + 1).forEach(stage => {
+    (REQUIRED_DOCUMENTS[stage] ?? []).forEach(type => required.add(type));
+  });
+
+  return Array.from(required);
+}
+
+export function buildDocumentChecklist(status: string | null, documents: ApplicationDocument[]): DocumentChecklist {
+  const items = requiredDocumentsFor(status).map(type => {
+    // Prefer an accepted copy, then one awaiting review, then the latest rejection
+    const ofType = documents.filter(d => d.type === type);
+    const best = ofType.find(d => d.reviewStatus === "accepted")
+      ?? ofType.find(d => d.reviewStatus === "pending")
+      ?? ofType[ofType.length - 1];
+
+    return best
+      ? { type, status: (best.reviewStatus ?? "pending") as "pending" | "accepted" | "rejected", documentId: best.id, reviewComment: best.reviewComment }
+      : { type, status: "missing" as const };
+  });
+
+  const missing = items.filter(i => i.status === "missing" || i.status === "rejected").map(i => i.type);
+
+  return {
+    applicationStatus: status,
+    items,
+    missing,
+    complete: items.every(i => i.status === "accepted"),
+  };
+}
+
+export async function sendDocument(res: Response, document: ApplicationDocument) {
+  const data = await documentStore.read(document.storageKey);
+  res.set("Content-Type", document.mimeType);
+  res.set("Content-Length", data.length.toString());
+  res.set("Content-Disposition", `attachment; filename="${document.fileName.replace(/["\\\r\n]/g, "_")}"`);
+  res.send(data);
+}
@@ -0,0 +1,109 @@
+import type { ApplicationSlaReport, ApplicationStatusHistory, SlaBreach, StageDuration } from "@shared/schema";
+
+// Office hours of the Dhaka office (UTC+6, no daylight saving): Saturday–Thursday, 10:00–18:00
+const OFFICE_UTC_OFFSET_HOURS = 6;
+const OFFICE_OPEN_HOUR = 10;
+const OFFICE_CLOSE_HOUR = 18;
+const OFFICE_WORKING_DAYS = [0, 1, 2, 3, 4, 6]; // Sunday = 0; Friday off
+
+// Maximum working hours an application may sit in a stage before it counts as a breach
+const STAGE_SLAS: Record<string, { workingHours: number; description: string }> = {
+  "Submitted": { workingHours: 6, description: "Counsellor contact within 6 working hours of submission" },
+  "Under Review": { workingHours: 80, description: "University decision chased within 10 working days" },
+  "Offer Received": { workingHours: 24, description: "Offer conditions reviewed with the student within 3 working days" },
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Working hours between two instants, counting only office hours in Dhaka time
+export function workingHoursBetween(start: Date, end: Date): number {
+  if (end <= start) return 0;
+
+  const offsetMs = OFFICE_UTC_OFFSET_HOURS * HOUR_MS;
+  const startLocal = start.getTime() + offsetMs;
+  const endLocal = end.getTime() + offsetMs;
+
+  let total = 0;
+  let dayStart = Math.floor(startLocal / (24 * HOUR_MS)) * 24 * HOUR_MS;
+
+  while (dayStart < endLocal) {
+    const weekday = new Date(dayStart).getUTCDay();
+    if (OFFICE_WORKING_DAYS.includes(weekday)) {
+      const open = dayStart + OFFICE_OPEN_HOUR * HOUR_MS;
+      const close = dayStart + OFFICE_CLOSE_HOUR * HOUR_MS;
+      const overlap = Math.min(close, endLocal) - Math.max(open, startLocal);
+      if (overlap > 0) total += overlap;
+    }
+    dayStart += 24 * HOUR_MS;
+  }
+
+  return total / HOUR_MS;
+}
+
+type StageStay = {
+  applicationId: number;
+  stage: string;
+  enteredAt: Date;
+  leftAt: Date | null;
+};
+
+// Turn ordered history rows into per-stage stays; the last stay of each application is still open
+function toStays(history: ApplicationStatusHistory[]): StageStay[] {
+  const stays: StageStay[] = [];
+
+  for (let i = 0; i < history.length; i++) {
+    const entry = history[i];
+    const next = history[i + 1];
+    const sameApplication = next && next.applicationId === entry.applicationId;
+    stays.push({
+      applicationId: entry.applicationId,
+      stage: entry.toStatus,
+      enteredAt: entry.createdAt!,
+      leftAt: sameApplication ? next.createdAt! : null,
+    });
+  }
+
+  return stays;
+}
+
+// `history` must be ordered by application, then time
+export function buildSlaReport(history: ApplicationStatusHistory[], since: Date, now = new Date()): ApplicationSlaReport {
+  const stays = toStays(history);
+
+  const byStage = new Map<string, StageStay[]>();
+  for (const stay of stays) {
+    byStage.set(stay.stage, [...(byStage.get(stay.stage) ?? []), stay]);
+  }
+
+  const stages: StageDuration[] = Array.from(byStage.entries()).map(([stage, stageStays]) => {
+    const completed = stageStays.filter(s => s.leftAt);
+    const totalHours = completed.reduce((sum, s) => sum + (s.leftAt!.getTime() - s.enteredAt.getTime()) / HOUR_MS, 0);
+    return {
+      stage,
+      completedStays: completed.length,
+      currentlyInStage: stageStays.length - completed.length,
+      averageHours: completed.length > 0 ? Math.round((totalHours / completed.length) * 10) / 10 : null,
+    };
+  });
+
+  const breaches: SlaBreach[] = [];
+  for (const stay of stays) {
+    const sla = STAGE_SLAS[stay.stage];
+    if (!sla || stay.enteredAt < since) continue;
+
+    const elapsed = workingHoursBetween(stay.enteredAt, stay.leftAt ?? now);
+    if (elapsed > sla.workingHours) {
+      breaches.push({
+        applicationId: stay.applicationId,
+        stage: stay.stage,
+        enteredAt: stay.enteredAt,
+        leftAt: stay.leftAt,
+        workingHoursElapsed: Math.round(elapsed * 10) / 10,
+        slaWorkingHours: sla.workingHours,
+        description: sla.description,
+      });
+    }
+  }
+
+  return { since, stages, breaches };
+}
@@ -0,0 +1,135 @@
+import {
+  APPLICATION_STATUSES,
+  APPLICATION_STATUS_TRANSITIONS,
+  type ApplicationStatus,
+  type ApplicationChoiceWithCourse,
+} from "@shared/schema";
+
+// Older rows were written with lowercase statuses such as "submitted"
+export function normalizeApplicationStatus(status: string | null | undefined): ApplicationStatus | undefined {
+  if (!status) return undefined;
+  return APPLICATION_STATUSES.find(s => s.toLowerCase() === status.trim().toLowerCase());
+}
+
+// Free-text statuses from before the pipeline existed are treated as "Submitted",
+// the stage every application used to start in, so they can still be moved on
+export function allowedTransitions(status: string | null | undefined): readonly ApplicationStatus[] {
+  const current = normalizeApplicationStatus(status) ?? "Submitted";
+  return APPLICATION_STATUS_TRANSITIONS[current];
+}
+
+export function canTransition(from: string | null | undefined, to: ApplicationStatus): boolean {
+  return allowedTransitions(from).includes(to);
+}
+
+type StatusNotification = {
+  title: string;
+  message: string;
+  type: "application" | "critical";
+};
+
+// Student-facing notification for each stage; `course` is e.g. "MSc Data Science at UCL"
+const statusTemplates: Record<ApplicationStatus, (course: string) => StatusNotification> = {
+  "Draft": (course) => ({
+    type: "application",
+    title: "Application Draft Saved",
+    message: `Your draft application for ${course} is ready. Review it and submit when you're ready.`,
+  }),
+  "Submitted": (course) => ({
+    type: "application",
+    title: "Application Submitted Successfully",
+    message: `Your application for ${course} has been submitted. A counsellor will contact you within 6 working hours.`,
+  }),
+  "Under Review": (course) => ({
+    type: "application",
+    title: "Application Under Review",
+    message: `Good news! Your application for ${course} is now being reviewed by the university.`,
+  }),
+  "Offer Received": (course) => ({
+    type: "critical",
+    title: "Offer Received 🎉",
+    message: `Congratulations! You have received an offer for ${course}. Your counsellor will walk you through accepting it and meeting any conditions.`,
+  }),
+  "CAS Issued": (course) => ({
+    type: "critical",
+    title: "CAS Issued",
+    message: `Your CAS for ${course} has been issued. You can now prepare your student visa application.`,
+  }),
+  "Visa Applied": (course) => ({
+    type: "application",
+    title: "Visa Application Submitted",
+    message: `Your student visa application for ${course} has been submitted. We'll let you know as soon as there's a decision.`,
+  }),
+  "Visa Approved": (course) => ({
+    type: "critical",
+    title: "Visa Approved ✈️",
+    message: `Your student visa for ${course} has been approved. Welcome to the UK! Your counsellor will share pre-departure guidance.`,
+  }),
+  "Visa Refused": (course) => ({
+    type: "critical",
+    title: "Visa Decision: Refused",
+    message: `Unfortunately your visa application for ${course} was refused. Your counsellor will contact you to discuss the reasons and your options for reapplying.`,
+  }),
+  "Rejected": (course) => ({
+    type: "application",
+    title: "Application Outcome",
+    message: `Unfortunately the university was unable to offer you a place on ${course}. Your counsellor will help you explore alternative courses.`,
+  }),
+  "Withdrawn": (course) => ({
+    type: "application",
+    title: "Application Withdrawn",
+    message: `Your application for ${course} has been withdrawn. Contact your counsellor if this was a mistake.`,
+  }),
+};
+
+export function buildStatusNotification(status: ApplicationStatus, course: string): StatusNotification {
+  return statusTemplates[status](course);
+}
+
+// "MSc Data Science at UCL", or a count when several courses were chosen
+export function describeApplicationCourses(choices: ApplicationChoiceWithCourse[], fallback: string): string {
+  if (choices.length === 0) return fallback;
+  if (choices.length === 1) {
+    const { course } = choices[0];
+    return `${course.name} at ${course.university.name}`;
+  }
+  return `${choices.length} courses (${choices.map(c => c.course.university.name).join(", ")})`;
+}
+
+// Student-facing notification for a single university decision
+export function buildChoiceNotification(choice: ApplicationChoiceWithCourse): StatusNotification | undefined {
+  const course = `${choice.course.name} at ${choice.course.university.name}`;
+
+  switch (choice.status) {
+    case "Offer Received": {
+      const conditional = choice.offerType === "conditional";
+      return {
+        type: "critical",
+        title: conditional ? "Conditional Offer Received 🎉" : "Unconditional Offer Received 🎉",
+        message: conditional
+          ? `You have received a conditional offer for ${course}.${choice.offerConditions ? ` Conditions: ${choice.offerConditions}` : ""}`
+          : `You have received an unconditional offer for ${course}. Congratulations!`,
+      };
+    }
+    case "Unsuccessful":
+      return {
+        type: "application",
+        title: "University Decision",
+        message: `Unfortunately your application for ${course} was unsuccessful. Your counsellor will help you review your other choices.`,
+      };
+    case "Offer Accepted":
+      return {
+        type: "application",
+        title: "Offer Accepted",
+        message: `You have accepted your offer for ${course}. Next step: your CAS.`,
+      };
+    case "Applied":
+      return {
+        type: "application",
+        title: "Application Sent to University",
+        message: `Your application for ${course} has been sent to the university.`,
+      };
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateSlots, zonedDayBounds } from "./appointmentSlots";
+import type { CounselorAvailability } from "@shared/schema";
+
+// 10:00-11:00 every day of the week as one-hour slots
+const daily: CounselorAvailability[] = [0, 1, 2, 3, 4, 5, 6].map((weekday) => ({
+  id: weekday + 1,
+  counselorId: 1,
+  weekday,
+  startTime: "10:00",
+  endTime: "11:00",
+  slotMinutes: 60,
+  createdAt: null,
+}));
+
+function slotStarts(timeZone: string, from: string, to: string): string[] {
+  return generateSlots({
+    availability: daily,
+    timeOff: [],
+    booked: [],
+    timeZone,
+    from: new Date(from),
+    to: new Date(to),
+  }).map((slot) => slot.startsAt);
+}
+
+test("London clocks going forward keep the Sunday of the change", () => {
+  assert.deepEqual(slotStarts("Europe/London", "2027-03-27T23:30:00Z", "2027-03-30T00:00:00Z"), [
+    "2027-03-28T09:00:00.000Z",
+    "2027-03-29T09:00:00.000Z",
+  ]);
+});
+
+test("London clocks going back keep the Sunday of the change", () => {
+  assert.deepEqual(slotStarts("Europe/London", "2027-10-30T23:30:00Z", "2027-11-02T00:00:00Z"), [
+    "2027-10-31T10:00:00.000Z",
+    "2027-11-01T10:00:00.000Z",
+  ]);
+});
+
+test("Dhaka slots are six hours ahead of UTC all year", () => {
+  assert.deepEqual(slotStarts("Asia/Dhaka", "2027-03-27T18:30:00Z", "2027-03-29T18:00:00Z"), [
+    "2027-03-28T04:00:00.000Z",
+    "2027-03-29T04:00:00.000Z",
+  ]);
+});
+
+test("Dhaka's day starts at 18:00 UTC the evening before", () => {
+  const { start, end } = zonedDayBounds(new Date("2027-03-28T20:00:00Z"), "Asia/Dhaka");
+  assert.equal(start.toISOString(), "2027-03-28T18:00:00.000Z");
+  assert.equal(end.toISOString(), "2027-03-29T18:00:00.000Z");
+});
@@ -0,0 +1,124 @@
+import type { Appointment, CounselorAvailability, CounselorTimeOff } from "@shared/schema";
+
+const MINUTE_MS = 60 * 1000;
+
+// How far ahead students may book
+export const BOOKING_WINDOW_DAYS = 60;
+
+export type Slot = {
+  startsAt: string; // ISO, UTC
+  endsAt: string;
+};
+
+// Wall-clock parts of an instant in a time zone
+function zonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: string) => parseInt(parts.find((part) => part.type === type)!.value);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour"), minute: get("minute"), second: get("second") };
+}
+
+// Offset of the zone from UTC at the given instant, in milliseconds
+function zoneOffset(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Instant at which the zone's wall clock shows `date` (YYYY-MM-DD) at `time` (HH:MM)
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // Two passes settle the offset around daylight-saving changes
+  let instant = wallClock - zoneOffset(new Date(wallClock), timeZone);
+  instant = wallClock - zoneOffset(new Date(instant), timeZone);
+  return new Date(instant);
+}
+
+// Calendar date (YYYY-MM-DD) in the zone at the given instant
+export function zonedDate(date: Date, timeZone: string): string {
+  const p = zonedParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+}
+
+export function formatInZone(date: Date, timeZone: string): string {
+  const label = timeZone === "Europe/London" ? "UK time" : timeZone === "Asia/Dhaka" ? "Dhaka time" : timeZone;
+  const formatted = date.toLocaleString("en-GB", {
+    timeZone,
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+  return `${formatted} (${label})`;
+}
+
+// The calendar date after `date` (YYYY-MM-DD); plain date arithmetic, no time zone involved
+function nextDate(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+}
+
+// The local calendar day containing `date`, from its midnight up to (not including) the next one
+export function zonedDayBounds(date: Date, timeZone: string): { start: Date; end: Date } {
+  const day = zonedDate(date, timeZone);
+  return {
+    start: zonedTimeToUtc(day, "00:00", timeZone),
+    end: zonedTimeToUtc(nextDate(day), "00:00", timeZone),
+  };
+}
+
+function overlaps(startA: number, endA: number, startB: number, endB: number): boolean {
+  return startA < endB && startB < endA;
+}
+
+// Free slots between `from` and `to`, built from weekly windows in the counselor's time zone
+export function generateSlots(options: {
+  availability: CounselorAvailability[];
+  timeOff: CounselorTimeOff[];
+  booked: Pick<Appointment, "startsAt" | "endsAt">[];
+  timeZone: string;
+  from: Date;
+  to: Date;
+}): Slot[] {
+  const { availability, timeOff, booked, timeZone, from, to } = options;
+  const busy = [
+    ...timeOff.map((off) => [off.startsAt.getTime(), off.endsAt.getTime()]),
+    ...booked.map((appointment) => [appointment.startsAt.getTime(), appointment.endsAt.getTime()]),
+  ];
+  const slots: Slot[] = [];
+
+  // Walk the counselor's local calendar dates; stepping instants by 24h would skip or repeat
+  // a date when a daylight-saving change falls in between
+  const lastDate = zonedDate(to, timeZone);
+  for (let date = zonedDate(from, timeZone); date <= lastDate; date = nextDate(date)) {
+    const [year, month, dayOfMonth] = date.split("-").map(Number);
+    const weekday = new Date(Date.UTC(year, month - 1, dayOfMonth)).getUTCDay();
+
+    for (const window of availability.filter((w) => w.weekday === weekday)) {
+      const windowEnd = zonedTimeToUtc(date, window.endTime, timeZone).getTime();
+      const length = (window.slotMinutes ?? 30) * MINUTE_MS;
+      let start = zonedTimeToUtc(date, window.startTime, timeZone).getTime();
+
+      for (; start + length <= windowEnd; start += length) {
+        const end = start + length;
+        if (start < from.getTime() || end > to.getTime()) continue;
+        if (busy.some(([busyStart, busyEnd]) => overlaps(start, end, busyStart, busyEnd))) continue;
+        slots.push({ startsAt: new Date(start).toISOString(), endsAt: new Date(end).toISOString() });
+      }
+    }
+  }
+
+  return slots.sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+}
@@ -0,0 +1,89 @@
+import { storage } from "./storage";
+import { generateSlots, formatInZone, BOOKING_WINDOW_DAYS, type Slot } from "./appointmentSlots";
+import type { AppointmentWithParties, Counselor } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function counselorTimezone(counselor: Pick<Counselor, "timezone">): string {
+  return counselor.timezone ?? "Asia/Dhaka";
+}
+
+// Free slots for a counselor; `ignoreAppointmentId` frees up the slot of an appointment being moved
+export async function getFreeSlots(
+  counselor: Counselor,
+  from: Date,
+  to: Date,
+  ignoreAppointmentId?: number,
+): Promise<Slot[]> {
+  const now = new Date();
+  const start = from < now ? now : from;
+  const latest = new Date(now.getTime() + BOOKING_WINDOW_DAYS * DAY_MS);
+  const end = to > latest ? latest : to;
+  if (end <= start) return [];
+
+  const [availability, timeOff, booked] = await Promise.all([
+    storage.getCounselorAvailability(counselor.id),
+    storage.getCounselorTimeOff(counselor.id, start),
+    storage.getAppointments({ counselorId: counselor.id, from: start, status: "booked" }),
+  ]);
+
+  return generateSlots({
+    availability,
+    timeOff,
+    booked: booked.filter((appointment) => appointment.id !== ignoreAppointmentId),
+    timeZone: counselorTimezone(counselor),
+    from: start,
+    to: end,
+  });
+}
+
+// The free slot starting exactly at `startsAt`, if the counselor offers one
+export async function findFreeSlot(
+  counselor: Counselor,
+  startsAt: Date,
+  ignoreAppointmentId?: number,
+): Promise<Slot | undefined> {
+  const slots = await getFreeSlots(counselor, startsAt, new Date(startsAt.getTime() + DAY_MS), ignoreAppointmentId);
+  return slots.find((slot) => new Date(slot.startsAt).getTime() === startsAt.getTime());
+}
+
+type AppointmentEvent = "booked" | "rescheduled" | "cancelled";
+
+const eventTitles: Record<AppointmentEvent, string> = {
+  booked: "Appointment booked",
+  rescheduled: "Appointment rescheduled",
+  cancelled: "Appointment cancelled",
+};
+
+// Tell the student and the counselor, each in their own time zone
+export async function notifyAppointmentParties(
+  appointment: AppointmentWithParties,
+  event: AppointmentEvent,
+  previousStartsAt?: Date,
+): Promise<void> {
+  const studentName = [appointment.student.firstName, appointment.student.lastName].filter(Boolean).join(" ")
+    || appointment.student.email
+    || "A student";
+
+  const describe = (timeZone: string) => {
+    const when = formatInZone(appointment.startsAt, timeZone);
+    const before = previousStartsAt ? ` (was ${formatInZone(previousStartsAt, timeZone)})` : "";
+    return event === "cancelled" ? `${when} has been cancelled` : `${when}${before}`;
+  };
+
+  await storage.createNotification({
+    userId: appointment.userId,
+    title: eventTitles[event],
+    message: `Your appointment with ${appointment.counselor.name}: ${describe(appointment.studentTimezone ?? "Asia/Dhaka")}.`,
+    type: "appointment",
+  });
+
+  if (appointment.counselor.userId) {
+    await storage.createNotification({
+      userId: appointment.counselor.userId,
+      title: eventTitles[event],
+      message: `Appointment with ${studentName}: ${describe(counselorTimezone(appointment.counselor))}.`,
+      type: "appointment",
+    });
+  }
+}
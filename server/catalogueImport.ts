@@ -0,0 +1,227 @@
+import { storage } from "./storage";
+import { parseCsvRecords, toCsv } from "./csv";
+import { fromZodError } from "zod-validation-error";
+import {
+  insertCourseSchema,
+  insertUniversitySchema,
+  type CatalogueImportReport,
+  type CatalogueImportRowResult,
+  type CatalogueWrite,
+  type CourseWithUniversity,
+} from "@shared/schema";
+
+export const CATALOGUE_FORMATS = ["csv", "json"] as const;
+export type CatalogueFormat = typeof CATALOGUE_FORMATS[number];
+
+// One row per course, carrying its university; the same columns are used for import and export
+export const CATALOGUE_COLUMNS = [
+  "universityCode",
+  "universityName",
+  "universityCity",
+  "universityCountry",
+  "universityGoogleMapUrl",
+  "universityImageUrl",
+  "courseCode",
+  "name",
+  "level",
+  "duration",
+  "faculty",
+  "tuitionFee",
+  "currency",
+  "ieltsOverall",
+  "ieltsListening",
+  "ieltsReading",
+  "ieltsWriting",
+  "ieltsSpeaking",
+  "scholarships",
+  "startDates",
+] as const;
+
+type CatalogueRecord = Record<string, unknown>;
+
+// Scholarships are a list; CSV cells hold them separated by semicolons
+const SCHOLARSHIP_SEPARATOR = ";";
+
+function text(value: unknown): string | undefined {
+  if (value == null) return undefined;
+  const trimmed = String(value).trim();
+  return trimmed === "" ? undefined : trimmed;
+}
+
+function scholarshipList(value: unknown): string[] | null {
+  if (Array.isArray(value)) return value.map(String).map((s) => s.trim()).filter(Boolean);
+  const raw = text(value);
+  return raw ? raw.split(SCHOLARSHIP_SEPARATOR).map((s) => s.trim()).filter(Boolean) : null;
+}
+
+export function parseCatalogueInput(body: unknown, format: CatalogueFormat): CatalogueRecord[] {
+  if (format === "csv") {
+    return typeof body === "string" ? parseCsvRecords(body) : [];
+  }
+  return Array.isArray(body) ? body.filter((row) => row && typeof row === "object") : [];
+}
+
+export async function importCatalogue(
+  records: CatalogueRecord[],
+  format: CatalogueFormat,
+  options: { dryRun: boolean },
+): Promise<CatalogueImportReport> {
+  const rows: CatalogueImportRowResult[] = [];
+  // Accepted rows, written in one go once every row has been checked
+  const writes: { result: CatalogueImportRowResult; write: CatalogueWrite }[] = [];
+  // University ids resolved so far, by code; null marks one the import will create
+  const universityIds = new Map<string, number | null>();
+  const courseRows = new Map<string, number>();
+  let universitiesCreated = 0;
+
+  for (let index = 0; index < records.length; index++) {
+    // Row numbers match the spreadsheet (header is row 1); JSON rows count from 1
+    const row = format === "csv" ? index + 2 : index + 1;
+    const record = records[index];
+    const universityCode = text(record.universityCode);
+    const courseCode = text(record.courseCode);
+    const errors: string[] = [];
+
+    if (!universityCode) errors.push("universityCode is required");
+    if (!courseCode) errors.push("courseCode is required");
+    if (courseCode && courseRows.has(courseCode)) {
+      errors.push(`Duplicate courseCode, first seen on row ${courseRows.get(courseCode)}`);
+    }
+
+    const course = insertCourseSchema.omit({ universityId: true }).safeParse({
+      externalCode: courseCode,
+      name: text(record.name),
+      level: text(record.level),
+      duration: text(record.duration),
+      faculty: text(record.faculty),
+      tuitionFee: text(record.tuitionFee),
+      currency: text(record.currency),
+      ieltsOverall: text(record.ieltsOverall),
+      ieltsListening: text(record.ieltsListening) ?? null,
+      ieltsReading: text(record.ieltsReading) ?? null,
+      ieltsWriting: text(record.ieltsWriting) ?? null,
+      ieltsSpeaking: text(record.ieltsSpeaking) ?? null,
+      scholarships: scholarshipList(record.scholarships),
+      startDates: text(record.startDates) ?? null,
+    });
+    if (!course.success) errors.push(fromZodError(course.error).message);
+
+    // University columns are only required the first time a university code appears
+    const universityFields = {
+      externalCode: universityCode,
+      name: text(record.universityName),
+      city: text(record.universityCity),
+      country: text(record.universityCountry),
+      googleMapUrl: text(record.universityGoogleMapUrl) ?? null,
+      imageUrl: text(record.universityImageUrl) ?? null,
+    };
+    const hasUniversityDetails = !!(universityFields.name || universityFields.city || universityFields.country);
+    const university = universityCode && !universityIds.has(universityCode)
+      ? await storage.getUniversityByExternalCode(universityCode)
+      : undefined;
+    if (university) universityIds.set(universityCode!, university.id);
+    const universityKnown = !!universityCode && universityIds.has(universityCode);
+
+    const universityData = insertUniversitySchema.safeParse(universityFields);
+    if ((hasUniversityDetails || !universityKnown) && !universityData.success) {
+      errors.push(fromZodError(universityData.error, { prefix: "University" }).message);
+    }
+
+    if (errors.length > 0 || !course.success) {
+      rows.push({ row, status: "rejected", universityCode, courseCode, errors });
+      continue;
+    }
+    courseRows.set(courseCode!, row);
+
+    const universityId = universityIds.get(universityCode!) ?? null;
+    if (!universityKnown) universitiesCreated++;
+    universityIds.set(universityCode!, universityId);
+
+    const existing = await storage.getCourseByExternalCode(courseCode!);
+    const result: CatalogueImportRowResult = {
+      row,
+      status: existing ? "updated" : "created",
+      universityCode,
+      courseCode,
+      courseId: existing?.id,
+    };
+    rows.push(result);
+    writes.push({
+      result,
+      write: {
+        universityCode: universityCode!,
+        universityId,
+        // Validated above whenever the university is new or the row carries its details
+        university: (!universityKnown || hasUniversityDetails) && universityData.success ? universityData.data : undefined,
+        courseId: existing?.id,
+        course: course.data,
+      },
+    });
+  }
+
+  if (!options.dryRun && writes.length > 0) {
+    const courseIds = await storage.applyCatalogueImport(writes.map(({ write }) => write));
+    writes.forEach(({ result }, i) => {
+      result.courseId = courseIds[i];
+    });
+  }
+
+  return {
+    format,
+    dryRun: options.dryRun,
+    total: rows.length,
+    created: rows.filter((r) => r.status === "created").length,
+    updated: rows.filter((r) => r.status === "updated").length,
+    rejected: rows.filter((r) => r.status === "rejected").length,
+    universitiesCreated,
+    rows,
+  };
+}
+
+// Rejected rows as submitted, with an `errors` column, for fixing in the spreadsheet and re-uploading
+export function buildErrorReportCsv(records: CatalogueRecord[], report: CatalogueImportReport): string {
+  const offset = report.format === "csv" ? 2 : 1;
+  const rejected = report.rows
+    .filter((r) => r.status === "rejected")
+    .map((r) => {
+      const record = records[r.row - offset];
+      const scholarships = Array.isArray(record.scholarships)
+        ? record.scholarships.join(SCHOLARSHIP_SEPARATOR)
+        : record.scholarships;
+      return { row: r.row, ...record, scholarships, errors: (r.errors ?? []).join("; ") };
+    });
+  return toCsv(["row", ...CATALOGUE_COLUMNS, "errors"], rejected);
+}
+
+export function toCatalogueRecords(courses: CourseWithUniversity[]): Record<(typeof CATALOGUE_COLUMNS)[number], unknown>[] {
+  return courses.map((course) => ({
+    universityCode: course.university.externalCode,
+    universityName: course.university.name,
+    universityCity: course.university.city,
+    universityCountry: course.university.country,
+    universityGoogleMapUrl: course.university.googleMapUrl,
+    universityImageUrl: course.university.imageUrl,
+    courseCode: course.externalCode,
+    name: course.name,
+    level: course.level,
+    duration: course.duration,
+    faculty: course.faculty,
+    tuitionFee: course.tuitionFee,
+    currency: course.currency,
+    ieltsOverall: course.ieltsOverall,
+    ieltsListening: course.ieltsListening,
+    ieltsReading: course.ieltsReading,
+    ieltsWriting: course.ieltsWriting,
+    ieltsSpeaking: course.ieltsSpeaking,
+    scholarships: course.scholarships ?? [],
+    startDates: course.startDates,
+  }));
+}
+
+export function catalogueToCsv(courses: CourseWithUniversity[]): string {
+  const records = toCatalogueRecords(courses).map((record) => ({
+    ...record,
+    scholarships: (record.scholarships as string[]).join(SCHOLARSHIP_SEPARATOR),
+  }));
+  return toCsv(CATALOGUE_COLUMNS, records);
+}
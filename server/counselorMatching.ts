@@ -0,0 +1,112 @@
+import { storage } from "./storage";
+import { getFreeSlots } from "./appointments";
+import type { CounselorMatch, CounselorMatchCriteria, CounselorProfile } from "@shared/schema";
+
+// Relative weight of each signal when ranking counselors for a student
+const WEIGHTS = {
+  language: 3,
+  faculty: 2,
+  university: 2,
+  level: 1,
+  availableSoon: 1.5,
+  ratingPerStar: 0.5, // per star above or below a neutral 3
+  workloadPerCase: 0.05, // open leads, active applications and upcoming appointments
+};
+const MAX_WORKLOAD_PENALTY = 2;
+const AVAILABILITY_HORIZON_DAYS = 7;
+
+type ResolvedCriteria = {
+  language?: string;
+  faculties: string[];
+  levels: string[];
+  universityIds: number[];
+};
+
+// Fold the faculty, level and university of any chosen courses into the criteria
+async function resolveCriteria(criteria: CounselorMatchCriteria): Promise<ResolvedCriteria> {
+  const faculties = criteria.faculty ? [criteria.faculty] : [];
+  const levels = criteria.level ? [criteria.level] : [];
+  const universityIds = [...(criteria.universityIds ?? [])];
+
+  for (const courseId of criteria.courseIds ?? []) {
+    const course = await storage.getCourseById(courseId);
+    if (!course) continue;
+    faculties.push(course.faculty);
+    levels.push(course.level);
+    universityIds.push(course.universityId);
+  }
+
+  return {
+    language: criteria.language,
+    faculties: Array.from(new Set(faculties)),
+    levels: Array.from(new Set(levels)),
+    universityIds: Array.from(new Set(universityIds)),
+  };
+}
+
+function lowerCase(values: string[] | null | undefined): string[] {
+  return (values ?? []).map((value) => value.toLowerCase());
+}
+
+export function scoreCounselor(
+  counselor: CounselorProfile,
+  criteria: ResolvedCriteria,
+  nextAvailableSlot: string | null,
+): CounselorMatch {
+  let score = 0;
+  const reasons: string[] = [];
+
+  if (criteria.language && lowerCase(counselor.languages).includes(criteria.language.toLowerCase())) {
+    score += WEIGHTS.language;
+    reasons.push(`Speaks ${criteria.language}`);
+  }
+
+  const faculties = lowerCase(counselor.faculties);
+  const sharedFaculties = criteria.faculties.filter((faculty) => faculties.includes(faculty.toLowerCase()));
+  if (sharedFaculties.length > 0) {
+    score += WEIGHTS.faculty;
+    reasons.push(`Specialises in ${sharedFaculties.join(", ")}`);
+  }
+
+  const levels = lowerCase(counselor.levels);
+  const sharedLevels = criteria.levels.filter((level) => levels.includes(level.toLowerCase()));
+  if (sharedLevels.length > 0) {
+    score += WEIGHTS.level;
+    reasons.push(`Advises ${sharedLevels.join(", ")} applicants`);
+  }
+
+  const sharedUniversities = criteria.universityIds.filter((id) => (counselor.universityIds ?? []).includes(id));
+  if (sharedUniversities.length > 0) {
+    score += WEIGHTS.university;
+    reasons.push("Knows your chosen universities");
+  }
+
+  if (nextAvailableSlot) {
+    score += WEIGHTS.availableSoon;
+    reasons.push("Available this week");
+  }
+
+  if (counselor.rating.average !== null) {
+    score += (counselor.rating.average - 3) * WEIGHTS.ratingPerStar;
+  }
+
+  const caseload = counselor.workload.openLeads + counselor.workload.activeApplications + counselor.workload.upcomingAppointments;
+  score -= Math.min(caseload * WEIGHTS.workloadPerCase, MAX_WORKLOAD_PENALTY);
+
+  return { counselor, score: Math.round(score * 100) / 100, reasons, nextAvailableSlot };
+}
+
+export async function matchCounselors(criteria: CounselorMatchCriteria): Promise<CounselorMatch[]> {
+  const resolved = await resolveCriteria(criteria);
+  const counselors = await storage.getCounselorProfiles();
+  const now = new Date();
+  const horizon = new Date(now.getTime() + AVAILABILITY_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+
+  const matches: CounselorMatch[] = [];
+  for (const counselor of counselors) {
+    const [slot] = await getFreeSlots(counselor, now, horizon);
+    matches.push(scoreCounselor(counselor, resolved, slot?.startsAt ?? null));
+  }
+
+  return matches.sort((a, b) => b.score - a.score || a.counselor.name.localeCompare(b.counselor.name));
+}
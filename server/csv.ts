@@ -0,0 +1,75 @@
+// Minimal RFC 4180 CSV parser: quoted fields, escaped quotes and CRLF line endings
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  // Strip UTF-8 BOM that Excel and ad platforms prepend to exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+// Parse CSV into objects keyed by the header row
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const keys = header.map((key) => key.trim());
+  return rows.map((row) =>
+    Object.fromEntries(keys.map((key, index) => [key, (row[index] ?? "").trim()]))
+  );
+}
+
+function escapeCsvField(value: unknown): string {
+  const text = value == null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Serialise records under the given header order; missing values become empty fields
+export function toCsv(columns: readonly string[], records: Record<string, unknown>[]): string {
+  const lines = [columns.map(escapeCsvField).join(",")];
+  for (const record of records) {
+    lines.push(columns.map((column) => escapeCsvField(record[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
@@ -0,0 +1,59 @@
+import { sql, type SQL } from "drizzle-orm";
+import { courses, type ExchangeRate, type DisplayTuition } from "@shared/schema";
+
+// Latest rate per currency, as units per 1 GBP; GBP itself is always 1
+export type RateTable = Record<string, { rate: number; rateDate: string | null }>;
+
+export function buildRateTable(latestRates: ExchangeRate[]): RateTable {
+  const table: RateTable = { GBP: { rate: 1, rateDate: null } };
+  for (const row of latestRates) {
+    table[row.currency] = { rate: parseFloat(row.ratePerGbp), rateDate: row.rateDate };
+  }
+  return table;
+}
+
+// Converts through GBP; undefined when either currency has no rate
+export function convertAmount(amount: number, from: string, to: string, rates: RateTable): DisplayTuition | undefined {
+  if (from === to) {
+    return { amount: amount.toFixed(2), currency: to, rate: 1, rateDate: null };
+  }
+  const source = rates[from];
+  const target = rates[to];
+  if (!source || !target) return undefined;
+
+  const rate = target.rate / source.rate;
+  // The older of the two quotes is the one that bounds the conversion's freshness
+  const dates = [source.rateDate, target.rateDate].filter((d): d is string => d !== null).sort();
+  return { amount: (amount * rate).toFixed(2), currency: to, rate, rateDate: dates[0] ?? null };
+}
+
+// Course tuition in GBP, for range filters across courses priced in different currencies.
+// Courses in a currency without a rate evaluate to null and drop out of the range.
+export function tuitionInGbp(rates: RateTable): SQL {
+  const cases = Object.keys(rates).map((currency) => sql`when ${currency} then ${rates[currency].rate}::numeric`);
+  return sql`(${courses.tuitionFee} / (case ${courses.currency} ${sql.join(cases, sql` `)} end))`;
+}
+
+export function withDisplayTuition<T extends { tuitionFee: string; currency: string | null }>(
+  course: T,
+  displayCurrency: string,
+  rates: RateTable,
+): T & { displayTuition: DisplayTuition | null } {
+  const displayTuition = convertAmount(parseFloat(course.tuitionFee), course.currency ?? "GBP", displayCurrency, rates);
+  return { ...course, displayTuition: displayTuition ?? null };
+}
+
+// Range conditions for bounds quoted in `currency`; no conditions when that currency has no rate
+export function tuitionRangeConditions(
+  range: { min?: number; max?: number; currency?: string },
+  rates: RateTable,
+): SQL[] {
+  const rate = rates[range.currency ?? "GBP"]?.rate;
+  if (rate === undefined) return [];
+
+  const feeInGbp = tuitionInGbp(rates);
+  const conditions: SQL[] = [];
+  if (range.min !== undefined) conditions.push(sql`${feeInGbp} >= ${range.min / rate}`);
+  if (range.max !== undefined) conditions.push(sql`${feeInGbp} <= ${range.max / rate}`);
+  return conditions;
+}
@@ -0,0 +1,63 @@
+import { storage } from "./storage";
+import type { CourseIntake } from "@shared/schema";
+
+// Students who favorited a course hear about its application deadline this many days ahead
+const REMINDER_DAYS_BEFORE_DEADLINE = 14;
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatStartMonth(startMonth: string): string {
+  const [year, month] = startMonth.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleString("en-GB", { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+function formatDeadline(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+async function notifyFavoritingStudents(intake: CourseIntake): Promise<number> {
+  const course = await storage.getCourseById(intake.courseId);
+  if (!course || course.isActive === false) return 0;
+
+  const userIds = await storage.getUnremindedUserIds(intake);
+  for (const userId of userIds) {
+    await storage.createNotification({
+      userId,
+      title: "Application deadline approaching",
+      message: `Applications for ${course.name} at ${course.university.name} (${formatStartMonth(intake.startMonth)} intake) close on ${formatDeadline(intake.applicationDeadline)}.`,
+      type: "deadline",
+    });
+    await storage.recordDeadlineReminder(intake.id, userId);
+  }
+  return userIds.length;
+}
+
+export async function sendDeadlineReminders(now = new Date()): Promise<number> {
+  const deadlineBy = new Date(now.getTime() + REMINDER_DAYS_BEFORE_DEADLINE * DAY_MS).toISOString().slice(0, 10);
+  const intakes = await storage.claimDeadlineReminders(deadlineBy);
+
+  let sent = 0;
+  for (const intake of intakes) {
+    try {
+      sent += await notifyFavoritingStudents(intake);
+    } catch (error) {
+      console.error(`Error sending deadline reminders for intake ${intake.id}:`, error);
+      await storage.releaseDeadlineReminder(intake.id);
+    }
+  }
+  return sent;
+}
+
+export function startDeadlineReminders(): void {
+  const run = () => {
+    sendDeadlineReminders()
+      .then((sent) => {
+        if (sent > 0) console.log(`⏰ Sent ${sent} application deadline reminders`);
+      })
+      .catch((error) => console.error("Error running deadline reminders:", error));
+  };
+
+  run();
+  setInterval(run, CHECK_INTERVAL_MS).unref();
+}
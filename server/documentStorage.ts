@@ -0,0 +1,54 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Where uploaded document bytes are kept; metadata lives in application_documents
+export interface DocumentStore {
+  save(key: string, data: Buffer, mimeType: string): Promise<void>;
+  read(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+// Files on the local disk under DOCUMENT_STORAGE_DIR (default ./uploads)
+export class LocalDocumentStore implements DocumentStore {
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    // Keys are generated server-side, but never let one escape the storage root
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid document key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return await fs.readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolve(key));
+    } catch (error: any) {
+      if (error.code !== "ENOENT") throw error;
+    }
+  }
+}
+
+function createDocumentStore(): DocumentStore {
+  const driver = process.env.DOCUMENT_STORAGE_DRIVER || "local";
+
+  switch (driver) {
+    case "local":
+      return new LocalDocumentStore(process.env.DOCUMENT_STORAGE_DIR || path.resolve("uploads"));
+    default:
+      throw new Error(`Unknown DOCUMENT_STORAGE_DRIVER: ${driver}`);
+  }
+}
+
+export const documentStore = createDocumentStore();
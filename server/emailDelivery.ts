@@ -0,0 +1,99 @@
+import type { Transporter } from "nodemailer";
+import { storage } from "./storage";
+import { emailTransport, EMAIL_FROM, MESSAGE_ID_DOMAIN } from "./emailTransport";
+import type { EmailBounce, EmailOutbox } from "@shared/schema";
+
+// Attempts per email before it is marked failed; retries wait 2, 4, 8, 16 then 32 minutes
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 2 * 60 * 1000;
+const BATCH_SIZE = 20;
+const CHECK_INTERVAL_MS = 60 * 1000;
+// An email left in "sending" this long belongs to a worker that died mid-send
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+export function retryDelayMs(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+}
+
+// The receiving server refused the address itself (5xx to RCPT TO); retrying won't help
+function isRecipientRejection(error: any): boolean {
+  return typeof error?.responseCode === "number" && error.responseCode >= 500 && error.command === "RCPT TO";
+}
+
+async function deliver(email: EmailOutbox, transport: Transporter): Promise<void> {
+  const attempts = email.attempts ?? 1;
+  const messageId = `<${email.idempotencyKey}@${MESSAGE_ID_DOMAIN}>`;
+  try {
+    await transport.sendMail({
+      from: EMAIL_FROM,
+      to: email.toAddress,
+      subject: email.subject,
+      html: email.html,
+      text: email.text,
+      messageId,
+    });
+    await storage.updateEmail(email.id, { status: "sent", messageId, lastError: null, sentAt: new Date() });
+  } catch (error: any) {
+    const reason = error instanceof Error ? error.message : String(error);
+
+    if (isRecipientRejection(error)) {
+      await storage.updateEmail(email.id, { status: "bounced", bounceType: "hard", messageId, lastError: reason, bouncedAt: new Date() });
+      return;
+    }
+    if (attempts < MAX_ATTEMPTS) {
+      await storage.updateEmail(email.id, {
+        status: "queued",
+        lastError: reason,
+        nextAttemptAt: new Date(Date.now() + retryDelayMs(attempts)),
+      });
+      return;
+    }
+    await storage.updateEmail(email.id, { status: "failed", lastError: reason });
+  }
+}
+
+export async function processEmailOutbox(transport: Transporter = emailTransport): Promise<number> {
+  const claimed = await storage.claimDueEmails(BATCH_SIZE, new Date(Date.now() - STALE_SENDING_MS));
+  for (const email of claimed) {
+    try {
+      await deliver(email, transport);
+    } catch (error) {
+      console.error(`Error delivering email ${email.id}:`, error);
+    }
+  }
+  return claimed.length;
+}
+
+// Puts a failed email back in the outbox with a fresh set of attempts; bounced and suppressed
+// emails stay put because the address itself is the problem
+export async function retryEmail(email: EmailOutbox): Promise<EmailOutbox | undefined> {
+  if (email.status !== "failed") return undefined;
+  return await storage.updateEmail(email.id, { status: "queued", attempts: 0, nextAttemptAt: new Date() });
+}
+
+// Asynchronous bounces (DSNs) reported after the receiving server first accepted the email;
+// only hard bounces suppress the address
+export async function recordBounce(bounce: EmailBounce): Promise<EmailOutbox | undefined> {
+  const messageId = bounce.messageId.startsWith("<") ? bounce.messageId : `<${bounce.messageId}>`;
+  const email = await storage.getEmailByMessageId(messageId);
+  if (!email) return undefined;
+  return await storage.updateEmail(email.id, {
+    status: "bounced",
+    bounceType: bounce.type,
+    lastError: bounce.reason ?? "Bounced",
+    bouncedAt: new Date(),
+  });
+}
+
+export function startEmailWorker(): void {
+  const run = () => {
+    processEmailOutbox()
+      .then((sent) => {
+        if (sent > 0) console.log(`✉️ Processed ${sent} outgoing emails`);
+      })
+      .catch((error) => console.error("Error processing email outbox:", error));
+  };
+
+  run();
+  setInterval(run, CHECK_INTERVAL_MS).unref();
+}
@@ -0,0 +1,83 @@
+import { NOTIFICATION_TYPES, type Notification, type NotificationType, type User } from "@shared/schema";
+
+type NotificationEmailStyle = {
+  subjectPrefix: string;
+  accent: string;
+  action: string;
+  path: string;
+};
+
+// How each notification type is dressed up as an email; unknown types fall back to "info"
+const NOTIFICATION_EMAILS: Record<NotificationType, NotificationEmailStyle> = {
+  info: { subjectPrefix: "", accent: "#1d4ed8", action: "Open StudyinUK", path: "/notifications" },
+  application: { subjectPrefix: "", accent: "#1d4ed8", action: "View your application", path: "/applications" },
+  appointment: { subjectPrefix: "", accent: "#0f766e", action: "View your appointments", path: "/appointments" },
+  lead: { subjectPrefix: "", accent: "#7c3aed", action: "Open your leads", path: "/admin/leads" },
+  deadline: { subjectPrefix: "Reminder: ", accent: "#b45309", action: "View your saved courses", path: "/favorites" },
+  critical: { subjectPrefix: "Important: ", accent: "#b91c1c", action: "Open StudyinUK", path: "/notifications" },
+};
+
+export type RenderedEmail = {
+  subject: string;
+  html: string;
+  text: string;
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function emailStyle(type: string | null): NotificationEmailStyle {
+  const known = (NOTIFICATION_TYPES as readonly string[]).includes(type ?? "");
+  return NOTIFICATION_EMAILS[known ? (type as NotificationType) : "info"];
+}
+
+// Links point at the web app when APP_URL is set; without it the email carries no call to action
+export function renderNotificationEmail(
+  notification: Pick<Notification, "type" | "title" | "message">,
+  recipient: Pick<User, "firstName">,
+): RenderedEmail {
+  const style = emailStyle(notification.type);
+  const appUrl = process.env.APP_URL?.replace(/\/+$/, "");
+  const link = appUrl ? `${appUrl}${style.path}` : null;
+  const greeting = `Hi ${recipient.firstName || "there"},`;
+
+  const text = [
+    greeting,
+    "",
+    notification.title,
+    "",
+    notification.message,
+    ...(link ? ["", `${style.action}: ${link}`] : []),
+    "",
+    "- The StudyinUK team",
+  ].join("\n");
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+    <table role="presentation" width="100%" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;border-top:4px solid ${style.accent};">
+      <tr>
+        <td style="padding:24px;">
+          <p style="margin:0 0 16px;">${escapeHtml(greeting)}</p>
+          <h1 style="margin:0 0 12px;font-size:20px;color:${style.accent};">${escapeHtml(notification.title)}</h1>
+          <p style="margin:0 0 20px;line-height:1.5;white-space:pre-line;">${escapeHtml(notification.message)}</p>${link ? `
+          <p style="margin:0 0 20px;"><a href="${escapeHtml(link)}" style="display:inline-block;padding:10px 18px;background:${style.accent};color:#ffffff;text-decoration:none;border-radius:6px;">${escapeHtml(style.action)}</a></p>` : ""}
+          <p style="margin:0;color:#6b7280;font-size:13px;">The StudyinUK team</p>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+
+  return {
+    subject: `${style.subjectPrefix}${notification.title}`.slice(0, 255),
+    html,
+    text,
+  };
+}
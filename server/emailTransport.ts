@@ -0,0 +1,19 @@
+import nodemailer from "nodemailer";
+
+// Defaults point at a local catch-all SMTP server (Mailpit, MailHog) so development never emails real people
+export const EMAIL_FROM = process.env.EMAIL_FROM || "StudyinUK <no-reply@studyinuk.local>";
+
+// Domain for generated Message-IDs, taken from the sender address
+export const MESSAGE_ID_DOMAIN = EMAIL_FROM.match(/@([^>\s]+)/)?.[1] ?? "studyinuk.local";
+
+function createEmailTransport() {
+  const user = process.env.SMTP_USER;
+  return nodemailer.createTransport({
+    host: process.env.SMTP_HOST || "localhost",
+    port: parseInt(process.env.SMTP_PORT || "1025"),
+    secure: process.env.SMTP_SECURE === "true",
+    auth: user ? { user, pass: process.env.SMTP_PASS } : undefined,
+  });
+}
+
+export const emailTransport = createEmailTransport();
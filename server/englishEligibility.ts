@@ -0,0 +1,233 @@
+import {
+  ENGLISH_TESTS,
+  IELTS_COMPONENTS,
+  type CourseEligibility,
+  type CourseEnglishRequirement,
+  type CourseWithUniversity,
+  type EligibilityReport,
+  type EnglishRequirement,
+  type EnglishTest,
+  type EnglishTestEquivalence,
+  type EnglishTestScores,
+  type IeltsComponent,
+  type IeltsShortfall,
+} from "@shared/schema";
+
+// Largest per-component shortfall, in IELTS bands, that a pre-sessional English course can make up
+export const PRESESSIONAL_BAND_GAP = parseFloat(process.env.PRESESSIONAL_BAND_GAP || "1.0");
+
+type Requirement = Record<IeltsComponent, number | null>;
+
+export type EligibilityContext = {
+  requirements: CourseEnglishRequirement[]; // explicit non-IELTS minima for the courses being matched
+  equivalences: EnglishTestEquivalence[];
+  bandGap?: number;
+};
+
+function toNumber(value: string | null): number | null {
+  return value == null ? null : parseFloat(value);
+}
+
+function ieltsRequirement(course: CourseWithUniversity): Requirement {
+  return {
+    overall: toNumber(course.ieltsOverall),
+    listening: toNumber(course.ieltsListening),
+    reading: toNumber(course.ieltsReading),
+    writing: toNumber(course.ieltsWriting),
+    speaking: toNumber(course.ieltsSpeaking),
+  };
+}
+
+function explicitRequirement(row: CourseEnglishRequirement): Requirement {
+  return {
+    overall: toNumber(row.overall),
+    listening: toNumber(row.listening),
+    reading: toNumber(row.reading),
+    writing: toNumber(row.writing),
+    speaking: toNumber(row.speaking),
+  };
+}
+
+// Sub-score rows where the test has its own scale for skills (TOEFL), otherwise the overall rows
+function equivalenceRows(testType: EnglishTest, component: IeltsComponent, equivalences: EnglishTestEquivalence[]) {
+  const own = equivalences.filter((row) => row.testType === testType && row.component === component);
+  return own.length > 0 ? own : equivalences.filter((row) => row.testType === testType && row.component === "overall");
+}
+
+// Highest IELTS band the score reaches; undefined when the test has no equivalence table
+export function toIeltsBand(
+  testType: EnglishTest,
+  component: IeltsComponent,
+  score: number,
+  equivalences: EnglishTestEquivalence[],
+): number | undefined {
+  if (testType === "ielts") return score;
+  const rows = equivalenceRows(testType, component, equivalences);
+  if (rows.length === 0) return undefined;
+
+  let band = 0;
+  for (const row of rows) {
+    if (score >= parseFloat(row.minScore)) band = Math.max(band, parseFloat(row.ieltsBand));
+  }
+  return band;
+}
+
+// Lowest score on the test that counts as at least the given IELTS band
+export function fromIeltsBand(
+  testType: EnglishTest,
+  component: IeltsComponent,
+  band: number,
+  equivalences: EnglishTestEquivalence[],
+): number | undefined {
+  if (testType === "ielts") return band;
+  const scores = equivalenceRows(testType, component, equivalences)
+    .filter((row) => parseFloat(row.ieltsBand) >= band)
+    .map((row) => parseFloat(row.minScore));
+  return scores.length > 0 ? Math.min(...scores) : undefined;
+}
+
+// Sub-scores are never inferred from the overall score: the scales differ for some tests
+function studentScore(scores: EnglishTestScores, component: IeltsComponent): number | undefined {
+  return scores[component] ?? undefined;
+}
+
+// Components the student has no (convertible) score for are reported as missing, not passed
+function compare(
+  required: Requirement,
+  actual: (component: IeltsComponent) => number | undefined,
+  testType: EnglishTest,
+) {
+  const shortfalls: IeltsShortfall[] = [];
+  const missing: IeltsComponent[] = [];
+  for (const component of IELTS_COMPONENTS) {
+    const minimum = required[component];
+    if (minimum == null) continue;
+    const score = actual(component);
+    if (score === undefined) {
+      missing.push(component);
+    } else if (score < minimum) {
+      shortfalls.push({ testType, component, required: minimum, actual: score, gap: minimum - score });
+    }
+  }
+  return { shortfalls, missing };
+}
+
+export function classifyCourse(
+  course: CourseWithUniversity,
+  scores: EnglishTestScores,
+  context: EligibilityContext,
+): CourseEligibility {
+  const bandGap = context.bandGap ?? PRESESSIONAL_BAND_GAP;
+  const { testType } = scores;
+  const explicit = context.requirements.find((row) => row.courseId === course.id && row.testType === testType);
+
+  let comparison: ReturnType<typeof compare>;
+  let bandShortfall: (shortfall: IeltsShortfall) => number | undefined;
+
+  if (testType === "ielts" || explicit) {
+    // Compare on the student's own scale
+    const required = explicit ? explicitRequirement(explicit) : ieltsRequirement(course);
+    comparison = compare(required, (component) => studentScore(scores, component), testType);
+    bandShortfall = (shortfall) => {
+      const requiredBand = toIeltsBand(testType, shortfall.component, shortfall.required, context.equivalences);
+      const actualBand = toIeltsBand(testType, shortfall.component, shortfall.actual, context.equivalences);
+      return requiredBand === undefined || actualBand === undefined ? undefined : requiredBand - actualBand;
+    };
+  } else {
+    // IELTS-only course: translate the student's result into IELTS bands
+    if (toIeltsBand(testType, "overall", scores.overall, context.equivalences) === undefined) {
+      return { course, status: "not_eligible", comparable: false, shortfalls: [], missingComponents: [] };
+    }
+    comparison = compare(
+      ieltsRequirement(course),
+      (component) => {
+        const score = studentScore(scores, component);
+        return score === undefined ? undefined : toIeltsBand(testType, component, score, context.equivalences);
+      },
+      "ielts",
+    );
+    bandShortfall = (shortfall) => shortfall.gap;
+  }
+
+  const { shortfalls, missing } = comparison;
+  if (missing.length > 0) {
+    return { course, status: "not_eligible", comparable: false, shortfalls, missingComponents: missing };
+  }
+  if (shortfalls.length === 0) {
+    return { course, status: "eligible", comparable: true, shortfalls, missingComponents: [] };
+  }
+  const withinGap = shortfalls.every((shortfall) => {
+    const gap = bandShortfall(shortfall);
+    return gap !== undefined && gap <= bandGap;
+  });
+  return { course, status: withinGap ? "pre_sessional" : "not_eligible", comparable: true, shortfalls, missingComponents: [] };
+}
+
+export function buildEligibilityReport(
+  courses: CourseWithUniversity[],
+  scores: EnglishTestScores,
+  context: EligibilityContext,
+): EligibilityReport {
+  const report: EligibilityReport = {
+    testType: scores.testType,
+    preSessionalBandGap: context.bandGap ?? PRESESSIONAL_BAND_GAP,
+    eligible: [],
+    preSessional: [],
+    notEligible: [],
+  };
+
+  for (const course of courses) {
+    const result = classifyCourse(course, scores, context);
+    if (result.status === "eligible") report.eligible.push(result);
+    else if (result.status === "pre_sessional") report.preSessional.push(result);
+    else report.notEligible.push(result);
+  }
+
+  // Closest misses first, so students see the most attainable courses at the top
+  const largestGap = (result: CourseEligibility) => Math.max(0, ...result.shortfalls.map((s) => s.gap));
+  report.preSessional.sort((a, b) => largestGap(a) - largestGap(b));
+  report.notEligible.sort((a, b) => largestGap(a) - largestGap(b));
+
+  return report;
+}
+
+// Minimum scores per test for a course: IELTS from the course, explicit rows as entered,
+// and the remaining tests derived from IELTS through the equivalence tables
+export function buildEnglishRequirements(
+  course: CourseWithUniversity,
+  requirements: CourseEnglishRequirement[],
+  equivalences: EnglishTestEquivalence[],
+  testType?: EnglishTest,
+): EnglishRequirement[] {
+  const ielts = ieltsRequirement(course);
+  const result: EnglishRequirement[] = [];
+
+  for (const test of ENGLISH_TESTS) {
+    if (testType && test !== testType) continue;
+
+    const explicit = requirements.find((row) => row.courseId === course.id && row.testType === test);
+    if (test === "ielts" || explicit) {
+      const required = explicit ? explicitRequirement(explicit) : ielts;
+      result.push({ testType: test, ...required, overall: required.overall!, source: "course" });
+      continue;
+    }
+
+    const overall = fromIeltsBand(test, "overall", ielts.overall!, equivalences);
+    if (overall === undefined) continue;
+    const derive = (component: IeltsComponent) => {
+      const band = ielts[component];
+      return band == null ? null : fromIeltsBand(test, component, band, equivalences) ?? null;
+    };
+    result.push({
+      testType: test,
+      overall,
+      listening: derive("listening"),
+      reading: derive("reading"),
+      writing: derive("writing"),
+      speaking: derive("speaking"),
+      source: "equivalence",
+    });
+  }
+
+  return result;
+}
@@ -1,7 +1,13 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { startDeadlineReminders } from "./deadlineReminders";
+import { startMessageWorker } from "./messageQueue";
+import { startEmailWorker } from "./emailDelivery";
 
 const app = express();
+// Render terminates TLS at a proxy; trust it so req.ip is the real client address
+app.set("trust proxy", 1);
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -38,6 +44,17 @@ app.use((req, res, next) => {
 (async () => {
   const server = await registerRoutes(app);
 
+  // Older seed data stored currency symbols ("£"); rewrite them to ISO codes
+  storage.normalizeCourseCurrencies()
+    .then((count) => {
+      if (count > 0) console.log(`Normalised currency codes on ${count} courses`);
+    })
+    .catch((error) => console.error("Error normalising course currencies:", error));
+
+  startDeadlineReminders();
+  startMessageWorker();
+  startEmailWorker();
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
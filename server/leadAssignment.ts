@@ -0,0 +1,53 @@
+import { storage } from "./storage";
+import type { AssignmentCandidate, Lead, LeadAssignmentSettings } from "@shared/schema";
+
+// Choose a counselor for a lead according to the configured assignment rules
+export function pickAssignee(
+  candidates: AssignmentCandidate[],
+  lead: Pick<Lead, "preferredLanguage">,
+  settings: LeadAssignmentSettings,
+): AssignmentCandidate | undefined {
+  let pool = candidates;
+
+  if (settings.maxOpenLeads) {
+    pool = pool.filter(c => c.openLeads < settings.maxOpenLeads!);
+  }
+
+  // Prefer counselors who speak the lead's language, but never leave a lead unassigned over it
+  if (settings.matchLanguage && lead.preferredLanguage) {
+    const language = lead.preferredLanguage.toLowerCase();
+    const speakers = pool.filter(c => c.languages.some(l => l.toLowerCase() === language));
+    if (speakers.length > 0) {
+      pool = speakers;
+    }
+  }
+
+  const byLastAssigned = (a: AssignmentCandidate, b: AssignmentCandidate) =>
+    (a.lastAssignedAt?.getTime() ?? 0) - (b.lastAssignedAt?.getTime() ?? 0);
+
+  const sorted = [...pool].sort((a, b) =>
+    settings.strategy === "least_loaded"
+      ? a.openLeads - b.openLeads || byLastAssigned(a, b)
+      : byLastAssigned(a, b)
+  );
+
+  return sorted[0];
+}
+
+// Assign a new lead automatically if auto-assignment is enabled; returns the updated lead if assigned
+export async function autoAssignLead(lead: Lead, performedBy?: string): Promise<Lead | undefined> {
+  if (lead.assignedTo) return undefined;
+
+  const settings = await storage.getLeadAssignmentSettings();
+  if (!settings.autoAssign) return undefined;
+
+  const candidates = await storage.getAssignmentCandidates();
+  const assignee = pickAssignee(candidates, lead, settings);
+  if (!assignee) return undefined;
+
+  const strategy = settings.strategy === "least_loaded" ? "least loaded" : "round robin";
+  return await storage.assignLead(lead.id, assignee.userId, {
+    performedBy,
+    reason: `Auto-assigned to ${assignee.name} (${strategy}, ${assignee.openLeads} open leads)`,
+  });
+}
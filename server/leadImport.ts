@@ -0,0 +1,179 @@
+import { storage } from "./storage";
+import { parseCsvRecords } from "./csv";
+import { normalizePhone } from "./phone";
+import { autoAssignLead } from "./leadAssignment";
+import { fromZodError } from "zod-validation-error";
+import {
+  insertLeadSchema,
+  type InsertLead,
+  type Lead,
+  type LeadImportReport,
+  type LeadImportRowResult,
+} from "@shared/schema";
+
+export const LEAD_IMPORT_SOURCES = ["facebook", "google"] as const;
+export type LeadImportSource = typeof LEAD_IMPORT_SOURCES[number];
+
+type MappedField = "fullName" | "firstName" | "lastName" | "email" | "phone" | "courses" | "language" | "campaign";
+
+// Candidate column headers per field, in normalised form (lowercase, underscores)
+const columnMappings: Record<LeadImportSource, Record<MappedField, string[]>> = {
+  facebook: {
+    fullName: ["full_name", "name"],
+    firstName: ["first_name"],
+    lastName: ["last_name"],
+    email: ["email", "email_address"],
+    phone: ["phone_number", "phone", "mobile_number", "whatsapp_number"],
+    courses: ["which_course_are_you_interested_in", "interested_course", "course", "subject"],
+    language: ["preferred_language", "language"],
+    campaign: ["campaign_name", "ad_name", "form_name"],
+  },
+  google: {
+    fullName: ["full_name", "user_full_name", "name"],
+    firstName: ["first_name", "user_first_name"],
+    lastName: ["last_name", "user_last_name"],
+    email: ["user_email", "email", "work_email"],
+    phone: ["user_phone", "phone_number", "phone"],
+    courses: ["which_course_are_you_interested_in", "course", "program", "subject"],
+    language: ["preferred_language", "language"],
+    campaign: ["campaign_name", "campaign", "form_name"],
+  },
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+}
+
+function pick(record: Record<string, string>, candidates: string[]): string | undefined {
+  for (const key of candidates) {
+    if (record[key]) return record[key];
+  }
+  return undefined;
+}
+
+// Map one CSV row to lead fields using the source's column mapping
+function mapRow(raw: Record<string, string>, source: LeadImportSource): { lead: Record<string, unknown>; warnings: string[] } {
+  const record = Object.fromEntries(Object.entries(raw).map(([key, value]) => [normalizeHeader(key), value]));
+  const mapping = columnMappings[source];
+  const warnings: string[] = [];
+
+  let firstName = pick(record, mapping.firstName);
+  let lastName = pick(record, mapping.lastName);
+  const fullName = pick(record, mapping.fullName);
+  if (!firstName && !lastName && fullName) {
+    const [first, ...rest] = fullName.split(/\s+/);
+    firstName = first;
+    lastName = rest.join(" ") || undefined;
+  }
+
+  const rawPhone = pick(record, mapping.phone);
+  const phone = normalizePhone(rawPhone);
+  if (rawPhone && !phone) {
+    warnings.push(`Unrecognised phone number "${rawPhone}" was dropped`);
+  }
+
+  const courses = pick(record, mapping.courses);
+  const campaign = pick(record, mapping.campaign);
+
+  return {
+    lead: {
+      firstName,
+      lastName,
+      email: pick(record, mapping.email)?.toLowerCase(),
+      phone,
+      source,
+      interestedCourses: courses ? courses.split(/[,;]/).map(c => c.trim()).filter(Boolean) : undefined,
+      preferredLanguage: pick(record, mapping.language),
+      notes: campaign ? `Imported from ${source} campaign: ${campaign}` : undefined,
+    },
+    warnings,
+  };
+}
+
+// Fill in what the existing lead is missing without overwriting counsellor edits
+export function mergeLeadFields(existing: Lead, incoming: InsertLead): Partial<InsertLead> {
+  const updates: Partial<InsertLead> = {};
+
+  if (!existing.firstName && incoming.firstName) updates.firstName = incoming.firstName;
+  if (!existing.lastName && incoming.lastName) updates.lastName = incoming.lastName;
+  if (!existing.phone && incoming.phone) updates.phone = incoming.phone;
+  if (!existing.preferredLanguage && incoming.preferredLanguage) updates.preferredLanguage = incoming.preferredLanguage;
+  if (!existing.referredBy && incoming.referredBy) updates.referredBy = incoming.referredBy;
+
+  // First-touch attribution: the campaign fields are taken together so they never mix two campaigns
+  const utmFields = ["utmSource", "utmMedium", "utmCampaign", "utmTerm", "utmContent"] as const;
+  if (utmFields.every((field) => !existing[field]) && utmFields.some((field) => incoming[field])) {
+    for (const field of utmFields) {
+      if (incoming[field]) updates[field] = incoming[field];
+    }
+  }
+
+  const courses = Array.from(new Set([...(existing.interestedCourses ?? []), ...(incoming.interestedCourses ?? [])]));
+  if (courses.length > (existing.interestedCourses?.length ?? 0)) {
+    updates.interestedCourses = courses;
+  }
+
+  return updates;
+}
+
+export async function importLeadsFromCsv(
+  csv: string,
+  source: LeadImportSource,
+  options: { dryRun: boolean; performedBy?: string },
+): Promise<LeadImportReport> {
+  const records = parseCsvRecords(csv);
+  const rows: LeadImportRowResult[] = [];
+
+  // Contacts already seen in this file, so a dry run still reports in-file duplicates
+  const seen = new Set<string>();
+
+  for (let index = 0; index < records.length; index++) {
+    // Row numbers match the spreadsheet: header is row 1
+    const row = index + 2;
+    const { lead, warnings } = mapRow(records[index], source);
+
+    const parsed = insertLeadSchema.safeParse(lead);
+    if (!parsed.success) {
+      rows.push({ row, status: "rejected", email: lead.email as string | undefined, errors: [fromZodError(parsed.error).message] });
+      continue;
+    }
+
+    const data = parsed.data;
+    const keys = [data.email, data.phone].filter((key): key is string => !!key);
+    const duplicateInFile = keys.some(key => seen.has(key));
+    keys.forEach(key => seen.add(key));
+
+    const existing = await storage.findLeadByContact(data.email, data.phone);
+
+    if (existing) {
+      if (!options.dryRun) {
+        await storage.mergeLead(existing.id, mergeLeadFields(existing, data), {
+          subject: `Duplicate ${source} lead merged`,
+          content: data.notes ?? undefined,
+          performedBy: options.performedBy,
+        });
+      }
+      rows.push({ row, status: "merged", leadId: existing.id, email: data.email, warnings });
+    } else if (duplicateInFile) {
+      rows.push({ row, status: "merged", email: data.email, warnings });
+    } else {
+      let leadId: number | undefined;
+      if (!options.dryRun) {
+        const created = await storage.createLead(data);
+        await autoAssignLead(created, options.performedBy);
+        leadId = created.id;
+      }
+      rows.push({ row, status: "created", leadId, email: data.email, warnings });
+    }
+  }
+
+  return {
+    source,
+    dryRun: options.dryRun,
+    total: rows.length,
+    created: rows.filter(r => r.status === "created").length,
+    merged: rows.filter(r => r.status === "merged").length,
+    rejected: rows.filter(r => r.status === "rejected").length,
+    rows,
+  };
+}
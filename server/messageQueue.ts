@@ -0,0 +1,190 @@
+import { storage } from "./storage";
+import { normalizePhone } from "./phone";
+import { renderTemplate } from "./messageTemplates";
+import { messagingProvider, MessagingProviderError, type MessagingProvider } from "./messagingProvider";
+import type { MessageChannel, MessageStatusCallback, OutboundMessage, SendMessage, User } from "@shared/schema";
+
+// Attempts per message before it is marked failed; retries wait 1, 2, 4 then 8 minutes
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const BATCH_SIZE = 20;
+const CHECK_INTERVAL_MS = 30 * 1000;
+// A message left in "sending" this long belongs to a worker that died mid-send
+const STALE_SENDING_MS = 10 * 60 * 1000;
+
+export type MessageRecipient = {
+  phone: string | null;
+  firstName: string | null;
+  leadId?: number;
+  userId?: string;
+};
+
+export function isMessagingConfigured(): boolean {
+  return messagingProvider !== null;
+}
+
+export function retryDelayMs(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** (attempts - 1);
+}
+
+function displayName(user: User): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "your counselor";
+}
+
+// Renders the template and queues it; the error is reported back to the caller as a 400
+export async function enqueueMessage(
+  recipient: MessageRecipient,
+  request: SendMessage,
+  sender: User,
+): Promise<{ message: OutboundMessage } | { error: string }> {
+  const phone = normalizePhone(recipient.phone);
+  if (!phone) {
+    return { error: "Recipient has no valid phone number" };
+  }
+
+  const rendered = renderTemplate(request.template, {
+    firstName: recipient.firstName || "there",
+    senderName: displayName(sender),
+    ...request.variables,
+  });
+  if ("missing" in rendered) {
+    return { error: `Missing template variables: ${rendered.missing.join(", ")}` };
+  }
+
+  const message = await storage.createOutboundMessage({
+    channel: request.channel,
+    recipientPhone: phone,
+    leadId: recipient.leadId,
+    userId: recipient.userId,
+    template: request.template,
+    body: rendered.body,
+    status: "queued",
+    sentBy: sender.id,
+  });
+
+  // Send straight away rather than waiting for the next worker tick
+  processMessageQueue().catch((error) => console.error("Error processing message queue:", error));
+  return { message };
+}
+
+// Records the outcome on the lead's timeline, once per send attempt that reached a final state
+async function logLeadActivity(message: OutboundMessage, status: "completed" | "failed"): Promise<void> {
+  if (!message.leadId || message.leadActivityId) return;
+
+  const activity = await storage.createLeadActivity({
+    leadId: message.leadId,
+    type: message.channel as MessageChannel,
+    subject: `${message.channel === "sms" ? "SMS" : "WhatsApp"} message (${message.template})`,
+    content: status === "failed" && message.lastError ? `${message.body}\n\nNot delivered: ${message.lastError}` : message.body,
+    status,
+    performedBy: message.sentBy,
+  });
+  await storage.updateOutboundMessage(message.id, { leadActivityId: activity.id });
+}
+
+async function deliver(message: OutboundMessage, provider: MessagingProvider): Promise<void> {
+  const attempts = message.attempts ?? 1;
+  try {
+    const result = await provider.send({ channel: message.channel as MessageChannel, to: message.recipientPhone, body: message.body });
+    const now = new Date();
+    const updated = await storage.updateOutboundMessage(message.id, {
+      status: result.status,
+      provider: provider.name,
+      providerMessageId: result.providerMessageId,
+      lastError: null,
+      sentAt: now,
+      deliveredAt: result.status === "delivered" ? now : null,
+    });
+    if (updated) await logLeadActivity(updated, "completed");
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    // Anything that isn't an explicit rejection from the provider (timeouts, network errors) is worth retrying
+    const retryable = !(error instanceof MessagingProviderError) || error.retryable;
+
+    if (retryable && attempts < MAX_ATTEMPTS) {
+      await storage.updateOutboundMessage(message.id, {
+        status: "queued",
+        lastError: reason,
+        nextAttemptAt: new Date(Date.now() + retryDelayMs(attempts)),
+      });
+      return;
+    }
+
+    const failed = await storage.updateOutboundMessage(message.id, {
+      status: "failed",
+      provider: provider.name,
+      lastError: reason,
+    });
+    if (failed) await logLeadActivity(failed, "failed");
+  }
+}
+
+export async function processMessageQueue(provider: MessagingProvider | null = messagingProvider): Promise<number> {
+  if (!provider) return 0;
+  const claimed = await storage.claimDueMessages(BATCH_SIZE, new Date(Date.now() - STALE_SENDING_MS));
+  for (const message of claimed) {
+    try {
+      await deliver(message, provider);
+    } catch (error) {
+      console.error(`Error delivering message ${message.id}:`, error);
+    }
+  }
+  return claimed.length;
+}
+
+// Puts a failed message back on the queue with a fresh set of attempts
+export async function retryMessage(message: OutboundMessage): Promise<OutboundMessage | undefined> {
+  if (message.status !== "failed") return undefined;
+
+  const requeued = await storage.updateOutboundMessage(message.id, {
+    status: "queued",
+    attempts: 0,
+    nextAttemptAt: new Date(),
+    leadActivityId: null,
+  });
+  processMessageQueue().catch((error) => console.error("Error processing message queue:", error));
+  return requeued;
+}
+
+// Delivery receipts from the provider's webhook. Receipts can arrive out of order, so a
+// delivered message is never moved back to sent.
+export async function applyStatusCallback(callback: MessageStatusCallback): Promise<OutboundMessage | undefined> {
+  if (!messagingProvider) return undefined;
+  const message = await storage.getOutboundMessageByProviderId(messagingProvider.name, callback.providerMessageId);
+  if (!message) return undefined;
+
+  switch (callback.status) {
+    case "sent":
+      return message;
+    case "delivered":
+      return await storage.updateOutboundMessage(message.id, { status: "delivered", deliveredAt: new Date() });
+    case "failed": {
+      const updated = await storage.updateOutboundMessage(message.id, {
+        status: "failed",
+        lastError: callback.error ?? "Reported undelivered by provider",
+      });
+      if (message.leadActivityId) {
+        await storage.updateLeadActivityStatus(message.leadActivityId, "failed");
+      }
+      return updated;
+    }
+  }
+}
+
+export function startMessageWorker(): void {
+  if (!messagingProvider) {
+    console.warn("📨 MESSAGING_PROVIDER is not set; outbound messages are disabled");
+    return;
+  }
+
+  const run = () => {
+    processMessageQueue()
+      .then((sent) => {
+        if (sent > 0) console.log(`📨 Processed ${sent} outbound messages`);
+      })
+      .catch((error) => console.error("Error processing message queue:", error));
+  };
+
+  run();
+  setInterval(run, CHECK_INTERVAL_MS).unref();
+}
@@ -0,0 +1,42 @@
+import type { MessageTemplate } from "@shared/schema";
+
+// {{placeholders}} are filled from the recipient, the sender and the variables sent with the request
+export const MESSAGE_TEMPLATE_BODIES: Record<MessageTemplate, string> = {
+  welcome:
+    "Hi {{firstName}}, this is {{senderName}} from StudyinUK. Thanks for your interest in studying in the UK! Reply here any time with questions about courses, applications or visas.",
+  follow_up:
+    "Hi {{firstName}}, {{senderName}} from StudyinUK here. Just checking in - is there anything I can help you with for your UK study plans?",
+  document_reminder:
+    "Hi {{firstName}}, we are still waiting for your {{document}}. Please upload it from your StudyinUK dashboard so we can continue with your application.",
+  appointment_reminder:
+    "Hi {{firstName}}, a reminder of your StudyinUK consultation with {{senderName}} on {{date}}.",
+  application_update:
+    "Hi {{firstName}}, there is an update on your application to {{university}}: {{update}}. Log in to StudyinUK for details.",
+  custom: "{{message}}",
+};
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export function templatePlaceholders(template: MessageTemplate): string[] {
+  const names = new Set<string>();
+  const body = MESSAGE_TEMPLATE_BODIES[template];
+  let match: RegExpExecArray | null;
+  PLACEHOLDER.lastIndex = 0;
+  while ((match = PLACEHOLDER.exec(body)) !== null) {
+    names.add(match[1]);
+  }
+  return Array.from(names);
+}
+
+// Returns the rendered text, or the placeholders that had no value
+export function renderTemplate(
+  template: MessageTemplate,
+  variables: Record<string, string | null | undefined>,
+): { body: string } | { missing: string[] } {
+  const missing = templatePlaceholders(template).filter((name) => !variables[name]?.trim());
+  if (missing.length > 0) {
+    return { missing };
+  }
+  const body = MESSAGE_TEMPLATE_BODIES[template].replace(PLACEHOLDER, (_, name: string) => variables[name]!.trim());
+  return { body };
+}
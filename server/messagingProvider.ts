@@ -0,0 +1,55 @@
+import type { MessageChannel } from "@shared/schema";
+
+export type ProviderMessage = {
+  channel: MessageChannel;
+  to: string;
+  body: string;
+};
+
+export type ProviderSendResult = {
+  providerMessageId: string;
+  // Providers that confirm delivery synchronously report "delivered"; the rest follow up via the status webhook
+  status: "sent" | "delivered";
+};
+
+// Thrown by providers; retryable errors are requeued with backoff, the rest fail the message immediately
+export class MessagingProviderError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = "MessagingProviderError";
+  }
+}
+
+// Sends WhatsApp/SMS messages; the queue and delivery bookkeeping live in messageQueue.ts
+export interface MessagingProvider {
+  readonly name: string;
+  send(message: ProviderMessage): Promise<ProviderSendResult>;
+}
+
+// Stand-in for development and tests: logs that a message went out instead of sending it. Only the id is
+// logged because the recipient's number and the message body are personal data.
+export class LocalMessagingProvider implements MessagingProvider {
+  readonly name = "local";
+  private nextId = 1;
+
+  async send(message: ProviderMessage): Promise<ProviderSendResult> {
+    const providerMessageId = `local-${Date.now()}-${this.nextId++}`;
+    console.log(`📨 [${message.channel}] local message ${providerMessageId} not sent`);
+    return { providerMessageId, status: "delivered" };
+  }
+}
+
+// Null when messaging is unconfigured: the local provider marks messages delivered without sending
+// them, so production only sends once MESSAGING_PROVIDER names a real provider
+function createMessagingProvider(): MessagingProvider | null {
+  const driver = process.env.MESSAGING_PROVIDER || "local";
+
+  switch (driver) {
+    case "local":
+      return process.env.NODE_ENV === "production" ? null : new LocalMessagingProvider();
+    default:
+      throw new Error(`Unknown MESSAGING_PROVIDER: ${driver}`);
+  }
+}
+
+export const messagingProvider = createMessagingProvider();
@@ -0,0 +1,28 @@
+// Normalise phone numbers to E.164, assuming Bangladesh (+880) for local formats
+export function normalizePhone(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+
+  // Facebook lead exports prefix phone numbers with "p:"
+  let phone = raw.trim().replace(/^p:/i, "");
+  const hasPlus = phone.startsWith("+");
+  let digits = phone.replace(/\D/g, "");
+  if (!digits) return null;
+
+  if (!hasPlus && digits.startsWith("00")) {
+    digits = digits.slice(2);
+  } else if (!hasPlus && /^01[3-9]\d{8}$/.test(digits)) {
+    // Local mobile format: 01712345678
+    digits = `880${digits.slice(1)}`;
+  } else if (!hasPlus && /^1[3-9]\d{8}$/.test(digits)) {
+    // Mobile number with the trunk zero dropped: 1712345678
+    digits = `880${digits}`;
+  }
+
+  // +880 followed by a trunk zero: +88001712345678
+  if (/^8800\d{10}$/.test(digits)) {
+    digits = `880${digits.slice(4)}`;
+  }
+
+  phone = `+${digits}`;
+  return /^\+\d{8,15}$/.test(phone) ? phone : null;
+}
@@ -0,0 +1,33 @@
+import type { RequestHandler } from "express";
+
+// Simple in-memory fixed-window rate limiter keyed by client IP
+export function rateLimit(options: { windowMs: number; max: number; message?: string }): RequestHandler {
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  // Periodically drop expired windows so the map doesn't grow unbounded
+  setInterval(() => {
+    const now = Date.now();
+    hits.forEach((entry, key) => {
+      if (entry.resetAt <= now) hits.delete(key);
+    });
+  }, options.windowMs).unref();
+
+  return (req, res, next) => {
+    const key = req.ip || req.socket.remoteAddress || "unknown";
+    const now = Date.now();
+    let entry = hits.get(key);
+
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + options.windowMs };
+      hits.set(key, entry);
+    }
+
+    entry.count++;
+    if (entry.count > options.max) {
+      res.set('Retry-After', Math.ceil((entry.resetAt - now) / 1000).toString());
+      return res.status(429).json({ message: options.message ?? "Too many requests, please try again later" });
+    }
+
+    next();
+  };
+}
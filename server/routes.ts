@@ -1,11 +1,87 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { requireAuth } from "./supabaseAuth";
-import { isAdmin } from "./adminAuth";
+import { requireAuth, createAuthUser, discardNewAccount } from "./supabaseAuth";
+import { requirePermission, requireCounselor, isScopedToOwnRecords, canAccessAssigned, canManageCounselor } from "./adminAuth";
 import { seedSampleData } from "./seed-data";
-import { insertApplicationSchema } from "@shared/schema";
+import { autoAssignLead } from "./leadAssignment";
+import { importLeadsFromCsv, mergeLeadFields, LEAD_IMPORT_SOURCES } from "./leadImport";
+import { normalizePhone } from "./phone";
+import { rateLimit } from "./rateLimit";
+import {
+  allowedTransitions,
+  buildChoiceNotification,
+  buildStatusNotification,
+  canTransition,
+  describeApplicationCourses,
+} from "./applicationStatus";
+import { buildSlaReport } from "./applicationSla";
+import { documentStore } from "./documentStorage";
+import { buildEligibilityReport, buildEnglishRequirements } from "./englishEligibility";
+import { buildRateTable, withDisplayTuition } from "./currency";
+import { checkScholarship, findEligibleScholarships } from "./scholarshipEligibility";
+import { getFreeSlots, findFreeSlot, counselorTimezone, notifyAppointmentParties } from "./appointments";
+import { zonedDayBounds } from "./appointmentSlots";
+import { matchCounselors } from "./counselorMatching";
+import { enqueueMessage, retryMessage, applyStatusCallback, isMessagingConfigured } from "./messageQueue";
+import { MESSAGE_TEMPLATE_BODIES, templatePlaceholders } from "./messageTemplates";
+import { retryEmail, recordBounce } from "./emailDelivery";
+import {
+  parseCatalogueInput,
+  importCatalogue,
+  buildErrorReportCsv,
+  toCatalogueRecords,
+  catalogueToCsv,
+} from "./catalogueImport";
+import {
+  MAX_DOCUMENT_BYTES,
+  buildDocumentChecklist,
+  buildStorageKey,
+  sendDocument,
+  validateDocumentUpload,
+} from "./applicationDocuments";
+import {
+  insertApplicationSchema,
+  insertUniversitySchema,
+  insertCourseSchema,
+  insertCounselorSchema,
+  insertTutorialSchema,
+  insertCourseIntakeSchema,
+  insertScholarshipSchema,
+  scholarshipSearchSchema,
+  studentProfileSchema,
+  counselorAvailabilitySchema,
+  insertCounselorTimeOffSchema,
+  bookAppointmentSchema,
+  counselorMatchSchema,
+  counselorRatingSchema,
+  counselorSelfUpdateSchema,
+  insertLeadSchema,
+  updateLeadSchema,
+  LEAD_WORKFLOW_FIELDS,
+  insertLeadActivitySchema,
+  insertLeadAssignmentSettingsSchema,
+  publicLeadCaptureSchema,
+  insertAdminUserSchema,
+  APPLICATION_STATUSES,
+  insertApplicationChoiceSchema,
+  DOCUMENT_TYPES,
+  courseSearchSchema,
+  englishEligibilitySchema,
+  englishTestEquivalenceRowSchema,
+  insertCourseEnglishRequirementSchema,
+  ENGLISH_TESTS,
+  tuitionFilterSchema,
+  currencyCodeSchema,
+  insertExchangeRateSchema,
+  sendMessageSchema,
+  messageStatusCallbackSchema,
+  MESSAGE_TEMPLATES,
+  emailBounceSchema,
+} from "@shared/schema";
 import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { timingSafeEqual } from "crypto";
 import { adminDb } from "./db";
 import { users, applications, courses, universities } from "@shared/schema";
 
@@ -31,6 +107,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Students keep their own profile up to date; nationality, level and grade drive scholarship matching
+  app.patch('/api/auth/user/profile', requireAuth, async (req: any, res) => {
+    try {
+      const profile = studentProfileSchema.parse(req.body);
+      const user = await storage.updateUserProfile(req.user.id, profile);
+      res.json(user);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating profile:", error);
+      res.status(500).json({ message: "Failed to update profile" });
+    }
+  });
+
   // Create user record in our database
   app.post('/api/auth/create-user', requireAuth, async (req: any, res) => {
     try {
@@ -59,29 +150,115 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/courses', async (req, res) => {
     try {
       const { search, faculty, level, ieltsScore } = req.query;
+      const { minTuition, maxTuition, displayCurrency } = tuitionFilterSchema.parse(req.query);
+      const { intake } = z.object({
+        intake: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "intake must be YYYY-MM").optional(),
+      }).parse(req.query);
+      const rates = buildRateTable(await storage.getLatestExchangeRates());
+      if (displayCurrency && !rates[displayCurrency]) {
+        return res.status(400).json({ message: `No exchange rate for ${displayCurrency}` });
+      }
       const filters = {
         search: search as string,
         faculty: faculty as string,
         level: level as string,
         ieltsScore: ieltsScore as string,
+        minTuition,
+        maxTuition,
+        tuitionCurrency: displayCurrency,
+        intake,
       };
       const courses = await storage.getCourses(filters);
-      res.json(courses);
+      const intakes = await storage.getCourseIntakes(courses.map((course) => course.id), { openOnly: true });
+      const withIntakes = courses.map((course) => ({
+        ...course,
+        intakes: intakes.filter((i) => i.courseId === course.id),
+      }));
+      res.json(displayCurrency
+        ? withIntakes.map((course) => withDisplayTuition(course, displayCurrency, rates))
+        : withIntakes);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       console.error("Error fetching courses:", error);
       res.status(500).json({ message: "Failed to fetch courses" });
     }
   });
 
+  app.get('/api/courses/search', async (req, res) => {
+    try {
+      const params = courseSearchSchema.parse(req.query);
+      const rates = buildRateTable(await storage.getLatestExchangeRates());
+      const { displayCurrency } = params;
+      if (displayCurrency && !rates[displayCurrency]) {
+        return res.status(400).json({ message: `No exchange rate for ${displayCurrency}` });
+      }
+      const result = await storage.searchCourses(params);
+      res.json(displayCurrency
+        ? { ...result, items: result.items.map((course) => withDisplayTuition(course, displayCurrency, rates)) }
+        : result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error searching courses:", error);
+      res.status(500).json({ message: "Failed to search courses" });
+    }
+  });
+
+  // Split the catalogue by whether a student's English test result meets each course's requirements
+  app.post('/api/courses/eligibility', async (req, res) => {
+    try {
+      const { faculty, level, ...scores } = englishEligibilitySchema.parse(req.body);
+      const [courses, requirements, equivalences] = await Promise.all([
+        storage.getCourses({ faculty, level }),
+        scores.testType === "ielts" ? Promise.resolve([]) : storage.getCourseEnglishRequirements(),
+        scores.testType === "ielts" ? Promise.resolve([]) : storage.getEnglishTestEquivalences(scores.testType),
+      ]);
+      res.json(buildEligibilityReport(courses, scores, { requirements, equivalences }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error checking course eligibility:", error);
+      res.status(500).json({ message: "Failed to check eligibility" });
+    }
+  });
+
   app.get('/api/courses/:id', async (req, res) => {
     try {
       const id = parseInt(req.params.id);
+      const { testType, displayCurrency } = z.object({
+        testType: z.enum(ENGLISH_TESTS).optional(),
+        displayCurrency: currencyCodeSchema.optional(),
+      }).parse(req.query);
       const course = await storage.getCourseById(id);
-      if (!course) {
+      if (!course || course.isActive === false) {
         return res.status(404).json({ message: "Course not found" });
       }
-      res.json(course);
+      const [requirements, equivalences, intakes] = await Promise.all([
+        storage.getCourseEnglishRequirements(id),
+        storage.getEnglishTestEquivalences(),
+        storage.getCourseIntakes([id], { openOnly: true }),
+      ]);
+      const detail = {
+        ...course,
+        intakes,
+        englishRequirements: buildEnglishRequirements(course, requirements, equivalences, testType),
+      };
+      if (!displayCurrency) {
+        return res.json(detail);
+      }
+      const rates = buildRateTable(await storage.getLatestExchangeRates());
+      if (!rates[displayCurrency]) {
+        return res.status(400).json({ message: `No exchange rate for ${displayCurrency}` });
+      }
+      res.json(withDisplayTuition(detail, displayCurrency, rates));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       console.error("Error fetching course:", error);
       res.status(500).json({ message: "Failed to fetch course" });
     }
@@ -98,18 +275,142 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Scholarship routes
+  app.get('/api/scholarships', async (req, res) => {
+    try {
+      const params = scholarshipSearchSchema.parse(req.query);
+      const scholarships = await storage.searchScholarships(params);
+      res.json(scholarships);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error searching scholarships:", error);
+      res.status(500).json({ message: "Failed to search scholarships" });
+    }
+  });
+
+  // Open scholarships the signed-in student may qualify for, based on their profile
+  app.get('/api/scholarships/eligible', requireAuth, async (req: any, res) => {
+    try {
+      const student = await storage.getUser(req.user.id);
+      if (!student) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const scholarships = await storage.searchScholarships({});
+      const missingProfile = (["nationality", "studyLevel", "academicGrade"] as const).filter((field) => student[field] == null);
+      res.json({ missingProfile, scholarships: findEligibleScholarships(scholarships, student) });
+    } catch (error) {
+      console.error("Error matching scholarships:", error);
+      res.status(500).json({ message: "Failed to match scholarships" });
+    }
+  });
+
   // Counselor routes
   app.get('/api/counselors', async (req, res) => {
     try {
-      const counselors = await storage.getCounselors();
+      const { language, faculty, level, universityId } = z.object({
+        language: z.string().trim().toLowerCase().optional(),
+        faculty: z.string().trim().toLowerCase().optional(),
+        level: z.string().trim().toLowerCase().optional(),
+        universityId: z.coerce.number().int().optional(),
+      }).parse(req.query);
+      const includes = (values: string[] | null, value?: string) =>
+        !value || (values ?? []).some((v) => v.toLowerCase() === value);
+
+      const counselors = (await storage.getCounselorProfiles()).filter((counselor) =>
+        includes(counselor.languages, language) &&
+        includes(counselor.faculties, faculty) &&
+        includes(counselor.levels, level) &&
+        (universityId === undefined || (counselor.universityIds ?? []).includes(universityId))
+      );
       res.json(counselors);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       console.error("Error fetching counselors:", error);
       res.status(500).json({ message: "Failed to fetch counselors" });
     }
   });
 
+  // Counselors ranked for a student by language, specialisation, availability, rating and caseload
+  app.post('/api/counselors/match', async (req, res) => {
+    try {
+      const criteria = counselorMatchSchema.parse(req.body ?? {});
+      const matches = await matchCounselors(criteria);
+      res.json(matches);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error matching counselors:", error);
+      res.status(500).json({ message: "Failed to match counselors" });
+    }
+  });
+
+  app.post('/api/counselors/:id/ratings', requireAuth, async (req: any, res) => {
+    try {
+      const rating = counselorRatingSchema.parse(req.body);
+      const counselor = await storage.getCounselorById(parseInt(req.params.id));
+      if (!counselor) {
+        return res.status(404).json({ message: "Counselor not found" });
+      }
+      if (!(await storage.hasCounselorServedStudent(counselor, req.user.id))) {
+        return res.status(403).json({ message: "You can rate a counselor after they have advised you" });
+      }
+      const saved = await storage.upsertCounselorRating(counselor.id, req.user.id, rating);
+      res.status(201).json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error rating counselor:", error);
+      res.status(500).json({ message: "Failed to save rating" });
+    }
+  });
+
+
+
+  // Public lead capture for the marketing site's "request a callback" form
+  const leadCaptureLimiter = rateLimit({ windowMs: 15 * 60 * 1000, max: 5 });
+
+  app.post('/api/leads', leadCaptureLimiter, async (req, res) => {
+    try {
+      const { website, message, ...capture } = publicLeadCaptureSchema.parse(req.body);
+
+      // Honeypot filled in: pretend it worked so bots don't adapt
+      if (website) {
+        return res.status(201).json({ success: true });
+      }
+
+      const phone = normalizePhone(capture.phone);
+      const leadData = insertLeadSchema.parse({
+        ...capture,
+        phone,
+        notes: message,
+      });
+
+      const existing = await storage.findLeadByContact(leadData.email, phone);
+      if (existing) {
+        await storage.mergeLead(existing.id, mergeLeadFields(existing, leadData), {
+          subject: "Repeat callback request from website",
+          content: message,
+        });
+      } else {
+        const lead = await storage.createLead(leadData);
+        await autoAssignLead(lead);
+      }
 
+      res.status(201).json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error capturing lead:", error);
+      res.status(500).json({ message: "Failed to submit request" });
+    }
+  });
 
   // Application routes
   app.get('/api/applications', requireAuth, async (req: any, res) => {
@@ -131,34 +432,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId,
         status: "Submitted" // Ensure all new applications start with "Submitted" status
       });
+      const missingCourseIds = await storage.findMissingCourseIds(Array.from(new Set(applicationData.selectedCourses)));
+      if (missingCourseIds.length > 0) {
+        return res.status(400).json({ message: `Unknown course ids: ${missingCourseIds.join(", ")}` });
+      }
       const application = await storage.createApplication(applicationData);
       
       // Create a notification for the user with course details
       try {
-        let notificationMessage = `Your application #${application.id} has been submitted. A counsellor will contact you within 6 working hours.`;
-        
-        // Get course and university details for enhanced notification
-        if (applicationData.selectedCourses && applicationData.selectedCourses.length > 0) {
-          try {
-            const courseDetails = await storage.getCourseById(applicationData.selectedCourses[0]);
-            console.log("🎯 Course lookup result:", courseDetails);
-            if (courseDetails && courseDetails.university) {
-              notificationMessage = `Your application to "${courseDetails.university.name}" for ${courseDetails.name} has been submitted. A counsellor will contact you within 6 working hours.`;
-              console.log("🎯 Enhanced message created:", notificationMessage);
-            }
-          } catch (courseError) {
-            console.error("Course lookup failed:", courseError);
-          }
-        }
-
+        const choices = await storage.getApplicationChoices(application.id);
+        const courseInfo = describeApplicationCourses(choices, `application #${application.id}`);
+        const notification = buildStatusNotification("Submitted", courseInfo);
         await storage.createNotification({
           userId,
-          title: "Application Submitted Successfully", 
-          message: notificationMessage,
-          type: "application",
+          ...notification,
           isRead: false
         });
-        console.log("🎯 Notification created with message:", notificationMessage);
+        console.log("🎯 Notification created with message:", notification.message);
       } catch (notificationError) {
         console.error("Failed to create notification:", notificationError);
         // Don't fail the application creation if notification fails
@@ -166,356 +456,2115 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(application);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       console.error("Error creating application:", error);
       res.status(500).json({ message: "Failed to create application" });
     }
   });
 
-  // Simple in-memory favorites storage for demo
-  const favoritesStore = new Map();
+  // Students submit their own drafts (e.g. ones created from favorites); later stages are staff-only
+  app.post('/api/applications/:id/submit', requireAuth, async (req: any, res) => {
+    try {
+      const applicationId = parseInt(req.params.id);
+      const application = await storage.getApplicationById(applicationId);
+      if (!application || application.userId !== req.user.id) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      if (!canTransition(application.status, "Submitted")) {
+        return res.status(409).json({ message: `Cannot submit an application with status "${application.status}"` });
+      }
+
+      const updatedApplication = await storage.updateApplicationStatus(applicationId, "Submitted", {
+        expectedStatus: application.status,
+        changedBy: req.user.id,
+      });
+      if (!updatedApplication) {
+        return res.status(409).json({ message: "Application status was changed by someone else, please refresh and try again" });
+      }
 
-  app.get('/api/favorites', async (req: any, res) => {
-    const favorites = Array.from(favoritesStore.values());
-    res.json(favorites);
-  });
+      try {
+        const choices = await storage.getApplicationChoices(applicationId);
+        const courseInfo = describeApplicationCourses(choices, `application #${applicationId}`);
+        const notification = buildStatusNotification("Submitted", courseInfo);
+        await storage.createNotification({
+          userId: application.userId,
+          ...notification,
+          isRead: false
+        });
+      } catch (notificationError) {
+        console.error("Failed to create submission notification:", notificationError);
+      }
 
-  app.post('/api/favorites', async (req: any, res) => {
-    const { courseId } = req.body;
-    const course = await storage.getCourseById(parseInt(courseId));
-    
-    if (course) {
-      const favorite = {
-        id: Date.now(),
-        courseId: parseInt(courseId),
-        course: course
-      };
-      favoritesStore.set(courseId.toString(), favorite);
-      res.status(201).json(favorite);
-    } else {
-      res.status(404).json({ message: "Course not found" });
+      res.json(updatedApplication);
+    } catch (error) {
+      console.error("Error submitting application:", error);
+      res.status(500).json({ message: "Failed to submit application" });
     }
   });
 
-  app.delete('/api/favorites/:courseId', async (req: any, res) => {
-    const courseId = req.params.courseId;
-    const deleted = favoritesStore.delete(courseId);
-    console.log(`Deleting favorite ${courseId}, success: ${deleted}, remaining:`, Array.from(favoritesStore.keys()));
-    res.status(200).json({ message: "Removed from favorites", deleted });
-  });
+  // Application documents: raw file body, with ?type=passport&fileName=passport.pdf
+  // Oversized bodies are rejected by the parser itself with a 413
+  const documentUpload = express.raw({ type: () => true, limit: MAX_DOCUMENT_BYTES });
+
+  app.post('/api/applications/:id/documents', requireAuth, documentUpload, async (req: any, res) => {
+    try {
+      const applicationId = parseInt(req.params.id);
+      const application = await storage.getApplicationById(applicationId);
+      if (!application || application.userId !== req.user.id) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      const { type, fileName } = z.object({
+        type: z.enum(DOCUMENT_TYPES),
+        fileName: z.string().trim().min(1).max(255),
+      }).parse(req.query);
+
+      const data: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const mimeType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+      const validationError = validateDocumentUpload(data, mimeType);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
 
-  app.get('/api/favorites/check/:courseId', async (req: any, res) => {
-    const courseId = req.params.courseId;
-    const isFavorite = favoritesStore.has(courseId);
-    res.json({ isFavorite });
+      const storageKey = buildStorageKey(applicationId, fileName);
+      await documentStore.save(storageKey, data, mimeType);
+      const document = await storage.createApplicationDocument({
+        applicationId,
+        type,
+        fileName,
+        mimeType,
+        sizeBytes: data.length,
+        storageKey,
+        uploadedBy: req.user.id,
+      });
+      res.status(201).json(document);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error uploading document:", error);
+      res.status(500).json({ message: "Failed to upload document" });
+    }
   });
 
-  // Notification routes
-  app.get('/api/notifications', requireAuth, async (req: any, res) => {
+  app.get('/api/applications/:id/documents', requireAuth, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const notifications = await storage.getUserNotifications(userId);
-      res.json(notifications);
+      const applicationId = parseInt(req.params.id);
+      const application = await storage.getApplicationById(applicationId);
+      if (!application || application.userId !== req.user.id) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      const documents = await storage.getApplicationDocuments(applicationId);
+      res.json(documents);
     } catch (error) {
-      console.error("Error fetching notifications:", error);
-      res.status(500).json({ message: "Failed to fetch notifications" });
+      console.error("Error fetching documents:", error);
+      res.status(500).json({ message: "Failed to fetch documents" });
     }
   });
 
-  app.get('/api/notifications/unread-count', requireAuth, async (req: any, res) => {
+  app.get('/api/applications/:id/documents/checklist', requireAuth, async (req: any, res) => {
     try {
-      const userId = req.user.id;
-      const count = await storage.getUnreadNotificationCount(userId);
-      res.json({ count });
+      const applicationId = parseInt(req.params.id);
+      const application = await storage.getApplicationById(applicationId);
+      if (!application || application.userId !== req.user.id) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      const documents = await storage.getApplicationDocuments(applicationId);
+      res.json(buildDocumentChecklist(application.status, documents));
     } catch (error) {
-      console.error("Error fetching unread count:", error);
-      res.status(500).json({ message: "Failed to fetch unread count" });
+      console.error("Error building document checklist:", error);
+      res.status(500).json({ message: "Failed to build document checklist" });
     }
   });
 
-  app.patch('/api/notifications/:id/read', requireAuth, async (req: any, res) => {
+  app.get('/api/applications/:id/documents/:documentId/download', requireAuth, async (req: any, res) => {
     try {
-      const id = parseInt(req.params.id);
-      await storage.markNotificationAsRead(id);
-      res.json({ success: true });
+      const applicationId = parseInt(req.params.id);
+      const application = await storage.getApplicationById(applicationId);
+      const document = await storage.getApplicationDocument(applicationId, parseInt(req.params.documentId));
+      if (!application || application.userId !== req.user.id || !document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      await sendDocument(res, document);
     } catch (error) {
-      console.error("Error marking notification as read:", error);
-      res.status(500).json({ message: "Failed to mark notification as read" });
+      console.error("Error downloading document:", error);
+      res.status(500).json({ message: "Failed to download document" });
     }
   });
 
-  // Tutorial routes
-  app.get('/api/tutorials', async (req, res) => {
+  app.delete('/api/applications/:id/documents/:documentId', requireAuth, async (req: any, res) => {
     try {
-      const tutorials = await storage.getTutorials();
-      res.json(tutorials);
+      const applicationId = parseInt(req.params.id);
+      const application = await storage.getApplicationById(applicationId);
+      const document = await storage.getApplicationDocument(applicationId, parseInt(req.params.documentId));
+      if (!application || application.userId !== req.user.id || !document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      if (document.reviewStatus === "accepted") {
+        return res.status(409).json({ message: "Accepted documents can't be deleted; contact your counsellor" });
+      }
+      await storage.deleteApplicationDocument(document.id);
+      await documentStore.delete(document.storageKey);
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error fetching tutorials:", error);
-      res.status(500).json({ message: "Failed to fetch tutorials" });
+      console.error("Error deleting document:", error);
+      res.status(500).json({ message: "Failed to delete document" });
     }
   });
 
-  // Seed data route (for development)
-  app.post('/api/seed', async (req, res) => {
+  // Appointment routes
+  app.get('/api/counselors/:id/slots', async (req, res) => {
     try {
-      await seedSampleData();
-      res.json({ message: "Sample data seeded successfully" });
+      const { from, to } = z.object({
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+      }).parse(req.query);
+      const counselor = await storage.getCounselorById(parseInt(req.params.id));
+      if (!counselor || counselor.isActive === false) {
+        return res.status(404).json({ message: "Counselor not found" });
+      }
+      const start = from ?? new Date();
+      const end = to ?? new Date(start.getTime() + 14 * 24 * 60 * 60 * 1000);
+      const slots = await getFreeSlots(counselor, start, end);
+      res.json({ counselorId: counselor.id, timezone: counselorTimezone(counselor), slots });
     } catch (error) {
-      console.error("Error seeding data:", error);
-      res.status(500).json({ message: "Failed to seed data" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error fetching slots:", error);
+      res.status(500).json({ message: "Failed to fetch available slots" });
     }
   });
 
-  // New working admin stats endpoint
-  app.get('/api/admin-dashboard-stats', requireAuth, async (req: any, res) => {
-    console.log("🚀 NEW ADMIN STATS ENDPOINT CALLED");
+  app.get('/api/appointments', requireAuth, async (req: any, res) => {
     try {
-      console.log("User ID:", req.user?.id);
-      
-      const allUsers = await storage.getUsers();
-      const allApplications = await storage.getAllApplications();
-      const allCourses = await storage.getCourses();
-      const allUniversities = await storage.getUniversities();
-      
-      console.log("Data counts:", {
-        users: allUsers.length,
-        applications: allApplications.length,
-        courses: allCourses.length,
-        universities: allUniversities.length
+      const appointments = await storage.getAppointments({
+        userId: req.user.id,
+        from: req.query.all === 'true' ? undefined : new Date(),
       });
-      
-      const stats = {
-        totalUsers: allUsers.length,
-        totalApplications: allApplications.length,
-        totalCourses: allCourses.length,
-        totalUniversities: allUniversities.length,
-        newUsersThisWeek: 0,
-        newApplicationsThisWeek: 0,
-        conversionRate: allUsers.length > 0 ? Math.round((allApplications.length / allUsers.length) * 100) : 0
-      };
-      
-      console.log("Sending stats:", stats);
-      res.json(stats);
+      res.json(appointments);
     } catch (error) {
-      console.error("Error in new stats endpoint:", error);
-      res.status(500).json({ error: "Failed to fetch stats" });
+      console.error("Error fetching appointments:", error);
+      res.status(500).json({ message: "Failed to fetch appointments" });
     }
   });
 
-  // Admin API endpoints - check if user has admin privileges
-  app.get('/api/admin/stats', requireAuth, async (req: any, res) => {
-    console.log("🔥 ADMIN STATS ENDPOINT CALLED - NEW VERSION");
+  app.post('/api/appointments', requireAuth, async (req: any, res) => {
     try {
-      console.log("📊 Admin stats request from user:", req.user?.id);
-      
-      // Check if user is admin
-      const currentUser = await storage.getUser(req.user.id);
-      console.log("👤 Current user:", currentUser);
-      console.log("🔐 Is admin?", currentUser?.isAdmin);
-      
-      if (!currentUser?.isAdmin) {
-        console.log("🚫 Admin access denied for user:", req.user.id);
-        return res.status(403).json({ message: "Admin access required" });
+      const { counselorId, startsAt, timezone, notes } = bookAppointmentSchema.parse(req.body);
+      const counselor = await storage.getCounselorById(counselorId);
+      if (!counselor || counselor.isActive === false) {
+        return res.status(404).json({ message: "Counselor not found" });
+      }
+      const slot = await findFreeSlot(counselor, startsAt);
+      if (!slot) {
+        return res.status(409).json({ message: "That time is not available, please pick another slot" });
       }
-      
-      // Get data using storage interface
-      const allUsers = await storage.getUsers();
-      const allApplications = await storage.getAllApplications();
-      const allCourses = await storage.getCourses();
-      const allUniversities = await storage.getUniversities();
 
-      console.log("📊 Data fetched:", {
-        usersCount: allUsers.length,
-        applicationsCount: allApplications.length,
-        coursesCount: allCourses.length,
-        universitiesCount: allUniversities.length
+      const booked = await storage.bookAppointment({
+        counselorId,
+        userId: req.user.id,
+        startsAt: new Date(slot.startsAt),
+        endsAt: new Date(slot.endsAt),
+        studentTimezone: timezone,
+        notes,
       });
+      if (!booked) {
+        return res.status(409).json({ message: "That slot was just taken, please pick another" });
+      }
 
-      // Calculate conversion rates correctly
-      const usersWithApplications = Array.from(new Set(allApplications.map(app => app.userId)));
-      const usersWithVisaApproved = Array.from(new Set(allApplications
-        .filter(app => app.status === 'Visa Approved')
-        .map(app => app.userId)));
+      const appointment = (await storage.getAppointmentById(booked.id))!;
+      await notifyAppointmentParties(appointment, "booked");
+      res.status(201).json(appointment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error booking appointment:", error);
+      res.status(500).json({ message: "Failed to book appointment" });
+    }
+  });
 
-      console.log("🔢 Conversion Rate Calculations:");
-      console.log("Total users:", allUsers.length);
-      console.log("Users with applications:", usersWithApplications);
-      console.log("Users with applications count:", usersWithApplications.length);
-      console.log("Users with visa approved:", usersWithVisaApproved);
-      console.log("Users with visa approved count:", usersWithVisaApproved.length);
+  app.patch('/api/appointments/:id', requireAuth, async (req: any, res) => {
+    try {
+      const { startsAt } = z.object({ startsAt: z.coerce.date() }).parse(req.body);
+      const current = await storage.getAppointmentById(parseInt(req.params.id));
+      if (!current || current.userId !== req.user.id) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      if (current.status !== "booked") {
+        return res.status(409).json({ message: "Only booked appointments can be rescheduled" });
+      }
+      const counselor = await storage.getCounselorById(current.counselorId);
+      const slot = counselor && await findFreeSlot(counselor, startsAt, current.id);
+      if (!slot) {
+        return res.status(409).json({ message: "That time is not available, please pick another slot" });
+      }
 
-      const stats = {
-        totalUsers: allUsers.length,
-        totalApplications: allApplications.length,
-        totalCourses: allCourses.length,
-        totalUniversities: allUniversities.length,
-        newUsersThisWeek: allUsers.filter(u => {
-          if (!u.createdAt) return false;
-          const userDate = new Date(u.createdAt);
-          const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-          return userDate > weekAgo;
-        }).length,
-        newApplicationsThisWeek: allApplications.filter(a => {
-          if (!a.createdAt) return false;
-          const appDate = new Date(a.createdAt);
-          const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-          return appDate > weekAgo;
-        }).length,
-        conversionRate: allUsers.length > 0 ? Math.round((usersWithApplications.length / allUsers.length) * 100) : 0,
-        finalConversionRate: usersWithApplications.length > 0 ? Math.round((usersWithVisaApproved.length / usersWithApplications.length) * 100) : 0
-      };
+      const moved = await storage.rescheduleAppointment(current.id, new Date(slot.startsAt), new Date(slot.endsAt));
+      if (!moved) {
+        return res.status(409).json({ message: "That slot was just taken, please pick another" });
+      }
 
-      console.log("📊 Returning stats:", stats);
-      res.json(stats);
+      const appointment = (await storage.getAppointmentById(current.id))!;
+      await notifyAppointmentParties(appointment, "rescheduled", current.startsAt);
+      res.json(appointment);
     } catch (error) {
-      console.error("Error fetching admin stats:", error);
-      res.status(500).json({ message: "Failed to fetch stats" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error rescheduling appointment:", error);
+      res.status(500).json({ message: "Failed to reschedule appointment" });
     }
   });
 
-  app.get('/api/admin/users', requireAuth, async (req: any, res) => {
+  app.post('/api/appointments/:id/cancel', requireAuth, async (req: any, res) => {
     try {
-      const currentUser = await storage.getUser(req.user.id);
-      if (!currentUser?.isAdmin) {
-        return res.status(403).json({ message: "Admin access required" });
+      const { reason } = z.object({ reason: z.string().trim().max(500).optional() }).parse(req.body ?? {});
+      const current = await storage.getAppointmentById(parseInt(req.params.id));
+      if (!current || current.userId !== req.user.id) {
+        return res.status(404).json({ message: "Appointment not found" });
       }
-      const users = await storage.getUsers();
-      res.json(users);
+      const cancelled = await storage.cancelAppointment(current.id, req.user.id, reason);
+      if (!cancelled) {
+        return res.status(409).json({ message: "Only booked appointments can be cancelled" });
+      }
+      const appointment = (await storage.getAppointmentById(current.id))!;
+      await notifyAppointmentParties(appointment, "cancelled");
+      res.json(appointment);
     } catch (error) {
-      console.error("Error fetching users:", error);
-      res.status(500).json({ message: "Failed to fetch users" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error cancelling appointment:", error);
+      res.status(500).json({ message: "Failed to cancel appointment" });
     }
   });
 
-  app.get('/api/admin/applications', requireAuth, async (req: any, res) => {
+  // Favorites routes
+  app.get('/api/favorites', requireAuth, async (req: any, res) => {
     try {
-      const currentUser = await storage.getUser(req.user.id);
-      if (!currentUser?.isAdmin) {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      const applications = await storage.getAllApplications();
-      res.json(applications);
+      const favorites = await storage.getUserFavorites(req.user.id);
+      res.json(favorites);
     } catch (error) {
-      console.error("Error fetching applications:", error);
-      res.status(500).json({ message: "Failed to fetch applications" });
+      console.error("Error fetching favorites:", error);
+      res.status(500).json({ message: "Failed to fetch favorites" });
     }
   });
 
-  app.get('/api/admin/leads', requireAuth, async (req: any, res) => {
+  app.post('/api/favorites', requireAuth, async (req: any, res) => {
     try {
-      const currentUser = await storage.getUser(req.user.id);
-      if (!currentUser?.isAdmin) {
-        return res.status(403).json({ message: "Admin access required" });
+      const courseId = parseInt(req.body.courseId);
+      const course = Number.isNaN(courseId) ? undefined : await storage.getCourseById(courseId);
+      if (!course || course.isActive === false) {
+        return res.status(404).json({ message: "Course not found" });
       }
-      res.json([]);
+      const favorite = await storage.addToFavorites(req.user.id, courseId);
+      res.status(201).json({ ...favorite, course });
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch leads" });
+      console.error("Error adding favorite:", error);
+      res.status(500).json({ message: "Failed to add favorite" });
     }
   });
 
-  app.get('/api/admin/analytics', requireAuth, async (req: any, res) => {
+  app.delete('/api/favorites/:courseId', requireAuth, async (req: any, res) => {
     try {
-      const currentUser = await storage.getUser(req.user.id);
-      if (!currentUser?.isAdmin) {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      const users = await storage.getUsers();
-      const applications = await storage.getAllApplications();
-      
-      const analytics = {
-        userRegistrations: users.map(u => ({
-          date: u.createdAt,
-          count: 1
-        })),
-        applicationSubmissions: applications.map(a => ({
-          date: a.createdAt,
-          count: 1,
-          status: a.status
-        }))
-      };
-
-      res.json(analytics);
+      const deleted = await storage.removeFromFavorites(req.user.id, parseInt(req.params.courseId));
+      res.status(200).json({ message: "Removed from favorites", deleted });
     } catch (error) {
-      console.error("Error fetching analytics:", error);
-      res.status(500).json({ message: "Failed to fetch analytics" });
+      console.error("Error removing favorite:", error);
+      res.status(500).json({ message: "Failed to remove favorite" });
     }
   });
 
-  // Application status update endpoint with automatic notification
-  app.patch('/api/admin/applications/:id/status', requireAuth, async (req: any, res) => {
-    console.log(`🔥 Application status update endpoint called for ID: ${req.params.id}`);
+  app.get('/api/favorites/check/:courseId', requireAuth, async (req: any, res) => {
     try {
-      const currentUser = await storage.getUser(req.user.id);
-      if (!currentUser?.isAdmin) {
-        console.log(`❌ Admin access denied for user: ${req.user.id}`);
-        return res.status(403).json({ message: "Admin access required" });
-      }
+      const isFavorite = await storage.isFavorite(req.user.id, parseInt(req.params.courseId));
+      res.json({ isFavorite });
+    } catch (error) {
+      console.error("Error checking favorite:", error);
+      res.status(500).json({ message: "Failed to check favorite" });
+    }
+  });
+
+  // Turn the current favorites (or a subset) into a draft application
+  app.post('/api/favorites/to-application', requireAuth, async (req: any, res) => {
+    try {
+      const { courseIds, fullName, phone, additionalNotes } = z.object({
+        courseIds: z.array(z.number().int()).min(1).optional(),
+        fullName: z.string().trim().min(1).optional(),
+        phone: z.string().trim().min(1).optional(),
+        additionalNotes: z.string().max(2000).optional(),
+      }).parse(req.body ?? {});
+
+      const favorites = await storage.getUserFavorites(req.user.id);
+      const selectedCourses = favorites
+        .map(f => f.courseId)
+        .filter(id => !courseIds || courseIds.includes(id));
+      if (selectedCourses.length === 0) {
+        return res.status(400).json({ message: "No favorite courses to apply for" });
+      }
+
+      const user = req.user;
+      const applicationData = insertApplicationSchema.parse({
+        userId: user.id,
+        fullName: fullName ?? ([user.firstName, user.lastName].filter(Boolean).join(' ') || user.email),
+        email: user.email,
+        phone: phone ?? user.phone ?? '',
+        selectedCourses,
+        additionalNotes,
+        status: "Draft",
+      });
+      const application = await storage.createApplication(applicationData);
+      res.status(201).json(application);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating draft application:", error);
+      res.status(500).json({ message: "Failed to create draft application" });
+    }
+  });
+
+  // Notification routes
+  app.get('/api/notifications', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const notifications = await storage.getUserNotifications(userId);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.get('/api/notifications/unread-count', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const count = await storage.getUnreadNotificationCount(userId);
+      res.json({ count });
+    } catch (error) {
+      console.error("Error fetching unread count:", error);
+      res.status(500).json({ message: "Failed to fetch unread count" });
+    }
+  });
+
+  app.patch('/api/notifications/:id/read', requireAuth, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      await storage.markNotificationAsRead(id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error marking notification as read:", error);
+      res.status(500).json({ message: "Failed to mark notification as read" });
+    }
+  });
+
+  // Tutorial routes
+  app.get('/api/tutorials', async (req, res) => {
+    try {
+      const tutorials = await storage.getTutorials();
+      res.json(tutorials);
+    } catch (error) {
+      console.error("Error fetching tutorials:", error);
+      res.status(500).json({ message: "Failed to fetch tutorials" });
+    }
+  });
+
+  // Seed data route (for development)
+  app.post('/api/seed', requireAuth, requirePermission("catalogue:manage"), async (req, res) => {
+    try {
+      await seedSampleData();
+      res.json({ message: "Sample data seeded successfully" });
+    } catch (error) {
+      console.error("Error seeding data:", error);
+      res.status(500).json({ message: "Failed to seed data" });
+    }
+  });
+
+  // Catalogue management. Deletes are soft: rows are deactivated so favorites and applications keep resolving.
+  app.get('/api/admin/universities', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const universities = await storage.getUniversities({ includeInactive: true });
+      res.json(universities);
+    } catch (error) {
+      console.error("Error fetching universities:", error);
+      res.status(500).json({ message: "Failed to fetch universities" });
+    }
+  });
+
+  app.post('/api/admin/universities', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const data = insertUniversitySchema.parse(req.body);
+      const university = await storage.createUniversity(data);
+      res.status(201).json(university);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating university:", error);
+      res.status(500).json({ message: "Failed to create university" });
+    }
+  });
+
+  app.patch('/api/admin/universities/:id', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const updates = insertUniversitySchema.partial().parse(req.body);
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ message: "No fields to update" });
+      }
+      const university = await storage.updateUniversity(parseInt(req.params.id), updates);
+      if (!university) {
+        return res.status(404).json({ message: "University not found" });
+      }
+      res.json(university);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating university:", error);
+      res.status(500).json({ message: "Failed to update university" });
+    }
+  });
+
+  app.delete('/api/admin/universities/:id', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const university = await storage.getUniversityById(id);
+      if (!university) {
+        return res.status(404).json({ message: "University not found" });
+      }
+      const activeCourses = await storage.countActiveCourses(id);
+      if (activeCourses > 0) {
+        return res.status(409).json({ message: `University still has ${activeCourses} active course(s); delete them first` });
+      }
+      const updated = await storage.updateUniversity(id, { isActive: false });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error deleting university:", error);
+      res.status(500).json({ message: "Failed to delete university" });
+    }
+  });
+
+  app.get('/api/admin/courses', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const courses = await storage.getCourses({ includeInactive: true });
+      res.json(courses);
+    } catch (error) {
+      console.error("Error fetching courses:", error);
+      res.status(500).json({ message: "Failed to fetch courses" });
+    }
+  });
+
+  app.post('/api/admin/courses', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const data = insertCourseSchema.parse(req.body);
+      const university = await storage.getUniversityById(data.universityId);
+      if (!university || university.isActive === false) {
+        return res.status(400).json({ message: "University not found" });
+      }
+      const course = await storage.createCourse(data);
+      res.status(201).json(course);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating course:", error);
+      res.status(500).json({ message: "Failed to create course" });
+    }
+  });
+
+  app.patch('/api/admin/courses/:id', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const updates = insertCourseSchema.partial().parse(req.body);
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ message: "No fields to update" });
+      }
+      if (updates.universityId !== undefined) {
+        const university = await storage.getUniversityById(updates.universityId);
+        if (!university || university.isActive === false) {
+          return res.status(400).json({ message: "University not found" });
+        }
+      }
+      const course = await storage.updateCourse(parseInt(req.params.id), updates);
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      res.json(course);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating course:", error);
+      res.status(500).json({ message: "Failed to update course" });
+    }
+  });
+
+  app.delete('/api/admin/courses/:id', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const course = await storage.getCourseById(id);
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      const applicationCount = await storage.countCourseApplications(id);
+      if (applicationCount > 0) {
+        return res.status(409).json({ message: `Course is referenced by ${applicationCount} application(s) and can't be deleted` });
+      }
+      const updated = await storage.updateCourse(id, { isActive: false });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error deleting course:", error);
+      res.status(500).json({ message: "Failed to delete course" });
+    }
+  });
+
+  // Intakes, including closed ones, for catalogue management
+  app.get('/api/admin/courses/:id/intakes', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const intakes = await storage.getCourseIntakes([parseInt(req.params.id)]);
+      res.json(intakes);
+    } catch (error) {
+      console.error("Error fetching intakes:", error);
+      res.status(500).json({ message: "Failed to fetch intakes" });
+    }
+  });
+
+  app.post('/api/admin/courses/:id/intakes', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const courseId = parseInt(req.params.id);
+      const data = insertCourseIntakeSchema.parse(req.body);
+      const course = await storage.getCourseById(courseId);
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      const existing = await storage.getCourseIntakes([courseId]);
+      if (existing.some((intake) => intake.startMonth === data.startMonth)) {
+        return res.status(409).json({ message: `Course already has a ${data.startMonth} intake` });
+      }
+      const intake = await storage.createCourseIntake(courseId, data);
+      res.status(201).json(intake);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating intake:", error);
+      res.status(500).json({ message: "Failed to create intake" });
+    }
+  });
+
+  app.patch('/api/admin/intakes/:id', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const updates = insertCourseIntakeSchema.partial().parse(req.body);
+      const intakeId = parseInt(req.params.id);
+      const existing = await storage.getCourseIntakeById(intakeId);
+      if (!existing) {
+        return res.status(404).json({ message: "Intake not found" });
+      }
+      if (updates.startMonth && updates.startMonth !== existing.startMonth) {
+        const siblings = await storage.getCourseIntakes([existing.courseId]);
+        if (siblings.some((intake) => intake.startMonth === updates.startMonth)) {
+          return res.status(409).json({ message: `Course already has a ${updates.startMonth} intake` });
+        }
+      }
+      const intake = await storage.updateCourseIntake(intakeId, updates);
+      if (!intake) {
+        return res.status(404).json({ message: "Intake not found" });
+      }
+      res.json(intake);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating intake:", error);
+      res.status(500).json({ message: "Failed to update intake" });
+    }
+  });
+
+  app.delete('/api/admin/intakes/:id', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteCourseIntake(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Intake not found" });
+      }
+      res.json({ message: "Intake deleted" });
+    } catch (error) {
+      console.error("Error deleting intake:", error);
+      res.status(500).json({ message: "Failed to delete intake" });
+    }
+  });
+
+  app.get('/api/admin/scholarships', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const scholarships = await storage.searchScholarships({ includeExpired: true });
+      res.json(scholarships);
+    } catch (error) {
+      console.error("Error fetching scholarships:", error);
+      res.status(500).json({ message: "Failed to fetch scholarships" });
+    }
+  });
+
+  app.post('/api/admin/scholarships', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const data = insertScholarshipSchema.parse(req.body);
+      const problem = await checkScholarship(data);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      const scholarship = await storage.createScholarship(data);
+      res.status(201).json(scholarship);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating scholarship:", error);
+      res.status(500).json({ message: "Failed to create scholarship" });
+    }
+  });
+
+  app.patch('/api/admin/scholarships/:id', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = insertScholarshipSchema.partial().parse(req.body);
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ message: "No fields to update" });
+      }
+      const existing = await storage.getScholarshipById(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Scholarship not found" });
+      }
+      const problem = await checkScholarship({ ...existing, ...updates });
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      const scholarship = await storage.updateScholarship(id, updates);
+      res.json(scholarship);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating scholarship:", error);
+      res.status(500).json({ message: "Failed to update scholarship" });
+    }
+  });
+
+  app.delete('/api/admin/scholarships/:id', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const scholarship = await storage.updateScholarship(parseInt(req.params.id), { isActive: false });
+      if (!scholarship) {
+        return res.status(404).json({ message: "Scholarship not found" });
+      }
+      res.json(scholarship);
+    } catch (error) {
+      console.error("Error deleting scholarship:", error);
+      res.status(500).json({ message: "Failed to delete scholarship" });
+    }
+  });
+
+  app.get('/api/admin/counselors', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const counselors = await storage.getCounselorProfiles({ includeInactive: true });
+      res.json(counselors);
+    } catch (error) {
+      console.error("Error fetching counselors:", error);
+      res.status(500).json({ message: "Failed to fetch counselors" });
+    }
+  });
+
+  app.post('/api/admin/counselors', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const data = insertCounselorSchema.parse(req.body);
+      const counselor = await storage.createCounselor(data);
+      res.status(201).json(counselor);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating counselor:", error);
+      res.status(500).json({ message: "Failed to create counselor" });
+    }
+  });
+
+  app.patch('/api/admin/counselors/:id', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const updates = insertCounselorSchema.partial().parse(req.body);
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ message: "No fields to update" });
+      }
+      const counselor = await storage.updateCounselor(parseInt(req.params.id), updates);
+      if (!counselor) {
+        return res.status(404).json({ message: "Counselor not found" });
+      }
+      res.json(counselor);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating counselor:", error);
+      res.status(500).json({ message: "Failed to update counselor" });
+    }
+  });
+
+  app.delete('/api/admin/counselors/:id', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const counselor = await storage.getCounselorById(id);
+      if (!counselor) {
+        return res.status(404).json({ message: "Counselor not found" });
+      }
+      const openLeads = await storage.countOpenLeadsForCounselor(counselor);
+      if (openLeads > 0) {
+        return res.status(409).json({ message: `Counselor has ${openLeads} open lead(s); reassign them first` });
+      }
+      const updated = await storage.updateCounselor(id, { isActive: false });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error deleting counselor:", error);
+      res.status(500).json({ message: "Failed to delete counselor" });
+    }
+  });
+
+  app.get('/api/admin/tutorials', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const tutorials = await storage.getTutorials({ includeInactive: true });
+      res.json(tutorials);
+    } catch (error) {
+      console.error("Error fetching tutorials:", error);
+      res.status(500).json({ message: "Failed to fetch tutorials" });
+    }
+  });
+
+  app.post('/api/admin/tutorials', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const data = insertTutorialSchema.parse(req.body);
+      const tutorial = await storage.createTutorial(data);
+      res.status(201).json(tutorial);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating tutorial:", error);
+      res.status(500).json({ message: "Failed to create tutorial" });
+    }
+  });
+
+  app.patch('/api/admin/tutorials/:id', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const updates = insertTutorialSchema.partial().parse(req.body);
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ message: "No fields to update" });
+      }
+      const tutorial = await storage.updateTutorial(parseInt(req.params.id), updates);
+      if (!tutorial) {
+        return res.status(404).json({ message: "Tutorial not found" });
+      }
+      res.json(tutorial);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating tutorial:", error);
+      res.status(500).json({ message: "Failed to update tutorial" });
+    }
+  });
+
+  app.delete('/api/admin/tutorials/:id', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const updated = await storage.updateTutorial(parseInt(req.params.id), { isActive: false });
+      if (!updated) {
+        return res.status(404).json({ message: "Tutorial not found" });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error("Error deleting tutorial:", error);
+      res.status(500).json({ message: "Failed to delete tutorial" });
+    }
+  });
+
+  // Bulk catalogue import keyed by external codes; send text/csv or a JSON array of rows.
+  // ?report=csv returns the rejected rows as a downloadable spreadsheet instead of the JSON report.
+  app.post('/api/admin/catalogue/import', requireAuth, requirePermission("catalogue:manage"), express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }), async (req: any, res) => {
+    try {
+      const format = typeof req.body === 'string' ? "csv" : "json";
+      const records = parseCatalogueInput(req.body, format);
+      if (records.length === 0) {
+        return res.status(400).json({ message: "Send catalogue rows as CSV (Content-Type: text/csv) or a JSON array" });
+      }
+
+      const report = await importCatalogue(records, format, { dryRun: req.query.dryRun === 'true' });
+      if (req.query.report === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', 'attachment; filename="catalogue-import-errors.csv"');
+        return res.send(buildErrorReportCsv(records, report));
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Error importing catalogue:", error);
+      res.status(500).json({ message: "Failed to import catalogue" });
+    }
+  });
+
+  app.get('/api/admin/catalogue/export', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const format = req.query.format === 'json' ? 'json' : 'csv';
+      await storage.assignMissingExternalCodes();
+      const courses = await storage.getCourses();
+      const date = new Date().toISOString().slice(0, 10);
+
+      res.setHeader('Content-Disposition', `attachment; filename="catalogue-${date}.${format}"`);
+      if (format === 'json') {
+        return res.json(toCatalogueRecords(courses));
+      }
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.send(catalogueToCsv(courses));
+    } catch (error) {
+      console.error("Error exporting catalogue:", error);
+      res.status(500).json({ message: "Failed to export catalogue" });
+    }
+  });
+
+  // New working admin stats endpoint
+  app.get('/api/admin-dashboard-stats', requireAuth, requirePermission("analytics:read"), async (req: any, res) => {
+    try {
+      const allUsers = await storage.getUsers();
+      const allApplications = await storage.getAllApplications();
+      const allCourses = await storage.getCourses();
+      const allUniversities = await storage.getUniversities();
+      
+      const stats = {
+        totalUsers: allUsers.length,
+        totalApplications: allApplications.length,
+        totalCourses: allCourses.length,
+        totalUniversities: allUniversities.length,
+        newUsersThisWeek: 0,
+        newApplicationsThisWeek: 0,
+        conversionRate: allUsers.length > 0 ? Math.round((allApplications.length / allUsers.length) * 100) : 0
+      };
+      
+      res.json(stats);
+    } catch (error) {
+      console.error("Error in new stats endpoint:", error);
+      res.status(500).json({ error: "Failed to fetch stats" });
+    }
+  });
+
+  // Admin API endpoints - check if user has admin privileges
+  app.get('/api/admin/stats', requireAuth, requirePermission("analytics:read"), async (req: any, res) => {
+    try {
+      // Get data using storage interface
+      const allUsers = await storage.getUsers();
+      const allApplications = await storage.getAllApplications();
+      const allCourses = await storage.getCourses();
+      const allUniversities = await storage.getUniversities();
+
+      // Calculate conversion rates correctly
+      const usersWithApplications = Array.from(new Set(allApplications.map(app => app.userId)));
+      const usersWithVisaApproved = Array.from(new Set(allApplications
+        .filter(app => app.status === 'Visa Approved')
+        .map(app => app.userId)));
+
+      const stats = {
+        totalUsers: allUsers.length,
+        totalApplications: allApplications.length,
+        totalCourses: allCourses.length,
+        totalUniversities: allUniversities.length,
+        newUsersThisWeek: allUsers.filter(u => {
+          if (!u.createdAt) return false;
+          const userDate = new Date(u.createdAt);
+          const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+          return userDate > weekAgo;
+        }).length,
+        newApplicationsThisWeek: allApplications.filter(a => {
+          if (!a.createdAt) return false;
+          const appDate = new Date(a.createdAt);
+          const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+          return appDate > weekAgo;
+        }).length,
+        conversionRate: allUsers.length > 0 ? Math.round((usersWithApplications.length / allUsers.length) * 100) : 0,
+        finalConversionRate: usersWithApplications.length > 0 ? Math.round((usersWithVisaApproved.length / usersWithApplications.length) * 100) : 0
+      };
+
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching admin stats:", error);
+      res.status(500).json({ message: "Failed to fetch stats" });
+    }
+  });
+
+  app.get('/api/admin/users', requireAuth, requirePermission("users:read"), async (req: any, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users);
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.get('/api/admin/applications', requireAuth, requirePermission("applications:read"), async (req: any, res) => {
+    try {
+      const applications = await storage.getAllApplications(
+        isScopedToOwnRecords(req.adminUser) ? { assignedTo: req.user.id } : undefined
+      );
+      res.json(applications);
+    } catch (error) {
+      console.error("Error fetching applications:", error);
+      res.status(500).json({ message: "Failed to fetch applications" });
+    }
+  });
+
+  // CRM lead routes
+  app.get('/api/admin/leads', requireAuth, requirePermission("leads:read"), async (req: any, res) => {
+    try {
+      const { status, priority, source, assignedTo, search, includeArchived } = req.query;
+      const leads = await storage.getLeads({
+        status: status as string,
+        priority: priority as string,
+        source: source as string,
+        assignedTo: isScopedToOwnRecords(req.adminUser) ? req.user.id : assignedTo as string,
+        search: search as string,
+        includeArchived: includeArchived === 'true',
+      });
+      res.json(leads);
+    } catch (error) {
+      console.error("Error fetching leads:", error);
+      res.status(500).json({ message: "Failed to fetch leads" });
+    }
+  });
+
+  // Bulk import of Facebook/Google Ads lead exports, sent as a raw text/csv body
+  app.post('/api/admin/leads/import', requireAuth, requirePermission("leads:import"), express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }), async (req: any, res) => {
+    try {
+      const source = z.enum(LEAD_IMPORT_SOURCES).parse(req.query.source);
+      if (typeof req.body !== 'string' || !req.body.trim()) {
+        return res.status(400).json({ message: "CSV body is required (Content-Type: text/csv)" });
+      }
+
+      const report = await importLeadsFromCsv(req.body, source, {
+        dryRun: req.query.dryRun === 'true',
+        performedBy: req.user.id,
+      });
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error, { prefix: "Invalid source" }).message });
+      }
+      console.error("Error importing leads:", error);
+      res.status(500).json({ message: "Failed to import leads" });
+    }
+  });
+
+  app.get('/api/admin/leads/:id', requireAuth, requirePermission("leads:read"), async (req: any, res) => {
+    try {
+      const lead = await storage.getLeadById(parseInt(req.params.id));
+      if (!lead || !canAccessAssigned(req.adminUser, lead.assignedTo)) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      res.json(lead);
+    } catch (error) {
+      console.error("Error fetching lead:", error);
+      res.status(500).json({ message: "Failed to fetch lead" });
+    }
+  });
+
+  app.post('/api/admin/leads', requireAuth, requirePermission("leads:write"), async (req: any, res) => {
+    try {
+      const leadData = insertLeadSchema.parse(req.body);
+
+      // Leads a counselor adds themselves stay on their own caseload
+      if (isScopedToOwnRecords(req.adminUser)) {
+        const lead = await storage.createLead({ ...leadData, assignedTo: req.user.id });
+        return res.status(201).json(lead);
+      }
+
+      const lead = await storage.createLead(leadData);
+      const assigned = await autoAssignLead(lead, req.user.id);
+      res.status(201).json(assigned ?? lead);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating lead:", error);
+      res.status(500).json({ message: "Failed to create lead" });
+    }
+  });
+
+  app.patch('/api/admin/leads/:id', requireAuth, requirePermission("leads:write"), async (req: any, res) => {
+    try {
+      const leadId = parseInt(req.params.id);
+      const workflowFields = LEAD_WORKFLOW_FIELDS.filter((field) => req.body?.[field] !== undefined);
+      if (workflowFields.length > 0) {
+        return res.status(400).json({
+          message: `${workflowFields.join(", ")} cannot be edited directly; use the assign or convert endpoints`,
+        });
+      }
+      const updates = updateLeadSchema.parse(req.body);
+      const existing = await storage.getLeadById(leadId);
+      if (!existing || !canAccessAssigned(req.adminUser, existing.assignedTo)) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      const lead = await storage.updateLead(leadId, updates);
+      res.json(lead);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating lead:", error);
+      res.status(500).json({ message: "Failed to update lead" });
+    }
+  });
+
+  app.post('/api/admin/leads/:id/archive', requireAuth, requirePermission("leads:write"), async (req: any, res) => {
+    try {
+      const leadId = parseInt(req.params.id);
+      const existing = await storage.getLeadById(leadId);
+      if (!existing || !canAccessAssigned(req.adminUser, existing.assignedTo)) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      const lead = await storage.archiveLead(leadId);
+      res.json(lead);
+    } catch (error) {
+      console.error("Error archiving lead:", error);
+      res.status(500).json({ message: "Failed to archive lead" });
+    }
+  });
+
+  // Lead assignment routes
+  app.post('/api/admin/leads/:id/assign', requireAuth, requirePermission("leads:assign"), async (req: any, res) => {
+    try {
+      const leadId = parseInt(req.params.id);
+      const lead = await storage.getLeadById(leadId);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+
+      // Without an assignee the configured rules pick one
+      const { assigneeId } = req.body;
+      if (!assigneeId) {
+        const assigned = await autoAssignLead({ ...lead, assignedTo: null }, req.user.id);
+        if (!assigned) {
+          return res.status(409).json({ message: "No counselor available for assignment" });
+        }
+        return res.json(assigned);
+      }
+
+      const candidates = await storage.getAssignmentCandidates();
+      const assignee = candidates.find(c => c.userId === assigneeId);
+      if (!assignee) {
+        return res.status(400).json({ message: "Assignee must be an active counselor" });
+      }
+
+      const previous = lead.assignedToUser
+        ? [lead.assignedToUser.firstName, lead.assignedToUser.lastName].filter(Boolean).join(' ') || lead.assignedToUser.email
+        : null;
+      const updated = await storage.assignLead(leadId, assigneeId, {
+        performedBy: req.user.id,
+        reason: previous
+          ? `Reassigned from ${previous} to ${assignee.name}`
+          : `Manually assigned to ${assignee.name}`,
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error assigning lead:", error);
+      res.status(500).json({ message: "Failed to assign lead" });
+    }
+  });
+
+  app.get('/api/admin/lead-assignment/candidates', requireAuth, requirePermission("leads:assign"), async (req: any, res) => {
+    try {
+      const candidates = await storage.getAssignmentCandidates();
+      res.json(candidates);
+    } catch (error) {
+      console.error("Error fetching assignment candidates:", error);
+      res.status(500).json({ message: "Failed to fetch assignment candidates" });
+    }
+  });
+
+  app.get('/api/admin/lead-assignment/settings', requireAuth, requirePermission("settings:manage"), async (req: any, res) => {
+    try {
+      const settings = await storage.getLeadAssignmentSettings();
+      res.json(settings);
+    } catch (error) {
+      console.error("Error fetching assignment settings:", error);
+      res.status(500).json({ message: "Failed to fetch assignment settings" });
+    }
+  });
+
+  app.put('/api/admin/lead-assignment/settings', requireAuth, requirePermission("settings:manage"), async (req: any, res) => {
+    try {
+      const updates = insertLeadAssignmentSettingsSchema.partial().parse(req.body);
+      const settings = await storage.updateLeadAssignmentSettings(updates);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating assignment settings:", error);
+      res.status(500).json({ message: "Failed to update assignment settings" });
+    }
+  });
+
+  // Exchange rates for tuition display; entered manually, one row per currency per date
+  app.get('/api/admin/exchange-rates', requireAuth, requirePermission("settings:manage"), async (req: any, res) => {
+    try {
+      const currency = typeof req.query.currency === "string" ? req.query.currency.toUpperCase() : undefined;
+      const rates = await storage.getExchangeRates(currency);
+      res.json(rates);
+    } catch (error) {
+      console.error("Error fetching exchange rates:", error);
+      res.status(500).json({ message: "Failed to fetch exchange rates" });
+    }
+  });
+
+  app.put('/api/admin/exchange-rates', requireAuth, requirePermission("settings:manage"), async (req: any, res) => {
+    try {
+      const rates = z.array(insertExchangeRateSchema).min(1).parse(req.body);
+      const saved = await storage.upsertExchangeRates(rates, req.user.id);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating exchange rates:", error);
+      res.status(500).json({ message: "Failed to update exchange rates" });
+    }
+  });
+
+  // Counselor availability and appointments; counselors only see and manage their own
+  app.get('/api/admin/counselors/:id/availability', requireAuth, requirePermission("appointments:manage"), async (req: any, res) => {
+    try {
+      const counselor = await storage.getCounselorById(parseInt(req.params.id));
+      if (!counselor || !canManageCounselor(req.adminUser, counselor)) {
+        return res.status(404).json({ message: "Counselor not found" });
+      }
+      const [availability, timeOff] = await Promise.all([
+        storage.getCounselorAvailability(counselor.id),
+        storage.getCounselorTimeOff(counselor.id, new Date()),
+      ]);
+      res.json({ timezone: counselorTimezone(counselor), availability, timeOff });
+    } catch (error) {
+      console.error("Error fetching availability:", error);
+      res.status(500).json({ message: "Failed to fetch availability" });
+    }
+  });
+
+  // Replaces the weekly schedule; times are in the counselor's time zone
+  app.put('/api/admin/counselors/:id/availability', requireAuth, requirePermission("appointments:manage"), async (req: any, res) => {
+    try {
+      const windows = counselorAvailabilitySchema.parse(req.body);
+      const counselor = await storage.getCounselorById(parseInt(req.params.id));
+      if (!counselor || !canManageCounselor(req.adminUser, counselor)) {
+        return res.status(404).json({ message: "Counselor not found" });
+      }
+      const availability = await storage.replaceCounselorAvailability(counselor.id, windows);
+      res.json(availability);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating availability:", error);
+      res.status(500).json({ message: "Failed to update availability" });
+    }
+  });
+
+  app.post('/api/admin/counselors/:id/time-off', requireAuth, requirePermission("appointments:manage"), async (req: any, res) => {
+    try {
+      const data = insertCounselorTimeOffSchema.parse(req.body);
+      const counselor = await storage.getCounselorById(parseInt(req.params.id));
+      if (!counselor || !canManageCounselor(req.adminUser, counselor)) {
+        return res.status(404).json({ message: "Counselor not found" });
+      }
+      const timeOff = await storage.createCounselorTimeOff(counselor.id, data);
+      // Booked appointments inside the time off stay booked; list them so they can be moved
+      const clashes = (await storage.getAppointments({ counselorId: counselor.id, from: data.startsAt, status: "booked" }))
+        .filter((appointment) => appointment.startsAt < data.endsAt);
+      res.status(201).json({ ...timeOff, clashingAppointments: clashes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error adding time off:", error);
+      res.status(500).json({ message: "Failed to add time off" });
+    }
+  });
+
+  app.delete('/api/admin/counselors/:id/time-off/:timeOffId', requireAuth, requirePermission("appointments:manage"), async (req: any, res) => {
+    try {
+      const counselor = await storage.getCounselorById(parseInt(req.params.id));
+      if (!counselor || !canManageCounselor(req.adminUser, counselor)) {
+        return res.status(404).json({ message: "Counselor not found" });
+      }
+      const deleted = await storage.deleteCounselorTimeOff(counselor.id, parseInt(req.params.timeOffId));
+      if (!deleted) {
+        return res.status(404).json({ message: "Time off not found" });
+      }
+      res.json({ message: "Time off removed" });
+    } catch (error) {
+      console.error("Error removing time off:", error);
+      res.status(500).json({ message: "Failed to remove time off" });
+    }
+  });
+
+  app.get('/api/admin/appointments', requireAuth, requirePermission("appointments:manage"), async (req: any, res) => {
+    try {
+      let counselorId = req.query.counselorId ? parseInt(req.query.counselorId as string) : undefined;
+      if (isScopedToOwnRecords(req.adminUser)) {
+        const own = await storage.getCounselorByUserId(req.user.id);
+        if (!own) {
+          return res.json([]);
+        }
+        counselorId = own.id;
+      }
+      const appointments = await storage.getAppointments({
+        counselorId,
+        from: req.query.all === 'true' ? undefined : new Date(),
+        status: req.query.status as string | undefined,
+      });
+      res.json(appointments);
+    } catch (error) {
+      console.error("Error fetching appointments:", error);
+      res.status(500).json({ message: "Failed to fetch appointments" });
+    }
+  });
+
+  app.post('/api/admin/appointments/:id/cancel', requireAuth, requirePermission("appointments:manage"), async (req: any, res) => {
+    try {
+      const { reason } = z.object({ reason: z.string().trim().max(500).optional() }).parse(req.body ?? {});
+      const current = await storage.getAppointmentById(parseInt(req.params.id));
+      if (!current || !canManageCounselor(req.adminUser, current.counselor)) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+      const cancelled = await storage.cancelAppointment(current.id, req.user.id, reason);
+      if (!cancelled) {
+        return res.status(409).json({ message: "Only booked appointments can be cancelled" });
+      }
+      const appointment = (await storage.getAppointmentById(current.id))!;
+      await notifyAppointmentParties(appointment, "cancelled");
+      res.json(appointment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error cancelling appointment:", error);
+      res.status(500).json({ message: "Failed to cancel appointment" });
+    }
+  });
+
+  // English test equivalence tables, used to match IELTS-only courses against other tests
+  app.get('/api/admin/english-equivalences', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const equivalences = await storage.getEnglishTestEquivalences();
+      res.json(equivalences);
+    } catch (error) {
+      console.error("Error fetching English test equivalences:", error);
+      res.status(500).json({ message: "Failed to fetch English test equivalences" });
+    }
+  });
+
+  app.put('/api/admin/english-equivalences/:testType', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const testType = z.enum(ENGLISH_TESTS).exclude(["ielts"]).parse(req.params.testType);
+      const rows = z.array(englishTestEquivalenceRowSchema).parse(req.body);
+      const equivalences = await storage.replaceEnglishTestEquivalences(testType, rows, req.user.id);
+      res.json(equivalences);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating English test equivalences:", error);
+      res.status(500).json({ message: "Failed to update English test equivalences" });
+    }
+  });
+
+  app.put('/api/admin/courses/:id/english-requirements', requireAuth, requirePermission("catalogue:manage"), async (req: any, res) => {
+    try {
+      const courseId = parseInt(req.params.id);
+      const requirements = z.array(insertCourseEnglishRequirementSchema).parse(req.body);
+      const course = await storage.getCourseById(courseId);
+      if (!course) {
+        return res.status(404).json({ message: "Course not found" });
+      }
+      const saved = await storage.replaceCourseEnglishRequirements(courseId, requirements);
+      res.json(saved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating English requirements:", error);
+      res.status(500).json({ message: "Failed to update English requirements" });
+    }
+  });
+
+  // Convert a lead into a student account, linking to an existing user when the email matches
+  app.post('/api/admin/leads/:id/convert', requireAuth, requirePermission("leads:convert"), async (req: any, res) => {
+    try {
+      const { target, courseIds } = z.object({
+        target: z.enum(["favorites", "application"]).default("favorites"),
+        courseIds: z.array(z.number().int()).optional(),
+      }).parse(req.body ?? {});
+
+      const leadId = parseInt(req.params.id);
+      const lead = await storage.getLeadById(leadId);
+      if (!lead || !canAccessAssigned(req.adminUser, lead.assignedTo)) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      if (lead.convertedUserId) {
+        return res.status(409).json({ message: "Lead has already been converted" });
+      }
+
+      const conversionCourseIds = Array.from(new Set(
+        courseIds ?? await storage.resolveCourseReferences(lead.interestedCourses ?? []),
+      ));
+      const missingCourseIds = await storage.findMissingCourseIds(conversionCourseIds);
+      if (missingCourseIds.length > 0) {
+        return res.status(400).json({ message: `Unknown course ids: ${missingCourseIds.join(", ")}` });
+      }
+
+      let user = await storage.getUserByEmail(lead.email);
+      const accountExisted = !!user;
+      if (!user) {
+        const fullName = [lead.firstName, lead.lastName].filter(Boolean).join(' ');
+        const authUser = await createAuthUser(lead.email, fullName || undefined);
+        try {
+          user = await storage.upsertUser({
+            id: authUser.id,
+            email: lead.email,
+            firstName: lead.firstName,
+            lastName: lead.lastName,
+            phone: lead.phone,
+          });
+        } catch (error) {
+          await discardNewAccount(authUser.id);
+          throw error;
+        }
+      }
+
+      let result;
+      try {
+        result = await storage.convertLead(leadId, {
+          user,
+          accountExisted,
+          courseIds: conversionCourseIds,
+          target,
+          performedBy: req.user.id,
+        });
+      } catch (error) {
+        if (!accountExisted) await discardNewAccount(user.id);
+        throw error;
+      }
+      if (!result) {
+        if (!accountExisted) await discardNewAccount(user.id);
+        return res.status(409).json({ message: "Lead has already been converted" });
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error converting lead:", error);
+      res.status(500).json({ message: "Failed to convert lead" });
+    }
+  });
+
+  app.get('/api/admin/lead-conversions/stats', requireAuth, requirePermission("analytics:read"), async (req: any, res) => {
+    try {
+      const stats = await storage.getLeadConversionStats();
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching conversion stats:", error);
+      res.status(500).json({ message: "Failed to fetch conversion stats" });
+    }
+  });
+
+  // Lead activity timeline and follow-ups
+  app.get('/api/admin/leads/:id/activities', requireAuth, requirePermission("leads:read"), async (req: any, res) => {
+    try {
+      const leadId = parseInt(req.params.id);
+      const lead = await storage.getLeadById(leadId);
+      if (!lead || !canAccessAssigned(req.adminUser, lead.assignedTo)) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      const activities = await storage.getLeadActivities(leadId);
+      res.json(activities);
+    } catch (error) {
+      console.error("Error fetching lead activities:", error);
+      res.status(500).json({ message: "Failed to fetch lead activities" });
+    }
+  });
+
+  app.post('/api/admin/leads/:id/activities', requireAuth, requirePermission("leads:write"), async (req: any, res) => {
+    try {
+      const leadId = parseInt(req.params.id);
+      const lead = await storage.getLeadById(leadId);
+      if (!lead || !canAccessAssigned(req.adminUser, lead.assignedTo)) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+
+      // Activities dated in the future are follow-ups; everything else is logged as done
+      const scheduledAt = req.body.scheduledAt ? new Date(req.body.scheduledAt) : undefined;
+      const isFollowUp = scheduledAt !== undefined && scheduledAt.getTime() > Date.now();
+      const activityData = insertLeadActivitySchema.parse({
+        ...req.body,
+        status: isFollowUp ? "scheduled" : "completed",
+        leadId,
+        performedBy: req.user.id,
+      });
+      const activity = await storage.createLeadActivity(activityData);
+      res.status(201).json(activity);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error creating lead activity:", error);
+      res.status(500).json({ message: "Failed to create lead activity" });
+    }
+  });
+
+  app.patch('/api/admin/lead-activities/:id/status', requireAuth, requirePermission("leads:write"), async (req: any, res) => {
+    try {
+      const { status } = req.body;
+      if (status !== "completed" && status !== "failed") {
+        return res.status(400).json({ message: "Status must be 'completed' or 'failed'" });
+      }
+      const activityId = parseInt(req.params.id);
+      const existing = await storage.getLeadActivity(activityId);
+      const lead = existing ? await storage.getLeadById(existing.leadId) : undefined;
+      if (!lead || !canAccessAssigned(req.adminUser, lead.assignedTo)) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+      const activity = await storage.updateLeadActivityStatus(activityId, status);
+      res.json(activity);
+    } catch (error) {
+      console.error("Error updating lead activity:", error);
+      res.status(500).json({ message: "Failed to update lead activity" });
+    }
+  });
+
+  // Outbound WhatsApp/SMS messaging
+  app.get('/api/admin/messages/templates', requireAuth, requirePermission("messages:send"), async (req: any, res) => {
+    res.json(MESSAGE_TEMPLATES.map((template) => ({
+      template,
+      body: MESSAGE_TEMPLATE_BODIES[template],
+      placeholders: templatePlaceholders(template),
+    })));
+  });
+
+  app.get('/api/admin/messages', requireAuth, requirePermission("messages:send"), async (req: any, res) => {
+    try {
+      const messages = await storage.getOutboundMessages({
+        status: req.query.status as string | undefined,
+        sentBy: isScopedToOwnRecords(req.adminUser) ? req.user.id : undefined,
+      });
+      res.json(messages);
+    } catch (error) {
+      console.error("Error fetching messages:", error);
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  app.post('/api/admin/messages/:id/retry', requireAuth, requirePermission("messages:send"), async (req: any, res) => {
+    try {
+      if (!isMessagingConfigured()) {
+        return res.status(503).json({ message: "Messaging is not configured" });
+      }
+      const message = await storage.getOutboundMessageById(parseInt(req.params.id));
+      if (!message || (isScopedToOwnRecords(req.adminUser) && message.sentBy !== req.user.id)) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      const requeued = await retryMessage(message);
+      if (!requeued) {
+        return res.status(409).json({ message: "Only failed messages can be retried" });
+      }
+      res.json(requeued);
+    } catch (error) {
+      console.error("Error retrying message:", error);
+      res.status(500).json({ message: "Failed to retry message" });
+    }
+  });
+
+  app.get('/api/admin/leads/:id/messages', requireAuth, requirePermission("leads:read"), async (req: any, res) => {
+    try {
+      const leadId = parseInt(req.params.id);
+      const lead = await storage.getLeadById(leadId);
+      if (!lead || !canAccessAssigned(req.adminUser, lead.assignedTo)) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      const messages = await storage.getOutboundMessages({ leadId });
+      res.json(messages);
+    } catch (error) {
+      console.error("Error fetching lead messages:", error);
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  app.post('/api/admin/leads/:id/messages', requireAuth, requirePermission("messages:send"), async (req: any, res) => {
+    try {
+      if (!isMessagingConfigured()) {
+        return res.status(503).json({ message: "Messaging is not configured" });
+      }
+      const request = sendMessageSchema.parse(req.body);
+      const lead = await storage.getLeadById(parseInt(req.params.id));
+      if (!lead || !canAccessAssigned(req.adminUser, lead.assignedTo)) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
 
-      const applicationId = parseInt(req.params.id);
-      const { status } = req.body;
-      console.log(`📝 Updating application ${applicationId} to status: ${status}`);
+      const result = await enqueueMessage(
+        { phone: lead.phone, firstName: lead.firstName, leadId: lead.id, userId: lead.convertedUserId ?? undefined },
+        request,
+        req.user,
+      );
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.status(202).json(result.message);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error sending lead message:", error);
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  // Messages to students land on the timeline of the lead they converted from, if any
+  app.post('/api/admin/users/:id/messages', requireAuth, requirePermission("messages:send"), async (req: any, res) => {
+    try {
+      if (!isMessagingConfigured()) {
+        return res.status(503).json({ message: "Messaging is not configured" });
+      }
+      const request = sendMessageSchema.parse(req.body);
+      const student = await storage.getUser(req.params.id);
+      if (!student) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (isScopedToOwnRecords(req.adminUser)) {
+        const assigned = await storage.getAllApplications({ assignedTo: req.user.id });
+        if (!assigned.some((application) => application.userId === student.id)) {
+          return res.status(404).json({ message: "User not found" });
+        }
+      }
+
+      const lead = await storage.getLeadByConvertedUserId(student.id);
+      const result = await enqueueMessage(
+        { phone: student.phone ?? lead?.phone ?? null, firstName: student.firstName, leadId: lead?.id, userId: student.id },
+        request,
+        req.user,
+      );
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.status(202).json(result.message);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error sending student message:", error);
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
 
-      if (!status) {
-        return res.status(400).json({ message: "Status is required" });
+  // Delivery receipts from the messaging provider, authenticated with MESSAGING_WEBHOOK_TOKEN
+  app.post('/api/webhooks/messaging/status', async (req: any, res) => {
+    try {
+      const expected = process.env.MESSAGING_WEBHOOK_TOKEN;
+      const provided = req.get('x-messaging-token');
+      if (!expected || !provided || provided.length !== expected.length
+        || !timingSafeEqual(Buffer.from(provided), Buffer.from(expected))) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const callback = messageStatusCallbackSchema.parse(req.body);
+      const message = await applyStatusCallback(callback);
+      if (!message) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      res.json({ id: message.id, status: message.status });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
       }
+      console.error("Error applying message status:", error);
+      res.status(500).json({ message: "Failed to update message status" });
+    }
+  });
+
+  // Scheduled follow-ups for the signed-in admin, due today or already overdue. "Today" is the
+  // counselor's own day, or the Dhaka office's for admins without a counselor profile.
+  app.get('/api/admin/follow-ups', requireAuth, requirePermission("leads:read"), async (req: any, res) => {
+    try {
+      const counselor = await storage.getCounselorByUserId(req.user.id);
+      const timeZone = counselor ? counselorTimezone(counselor) : "Asia/Dhaka";
+      const { start: startOfToday, end } = zonedDayBounds(new Date(), timeZone);
+      const endOfToday = new Date(end.getTime() - 1);
+
+      const due = await storage.getDueFollowUps(req.user.id, endOfToday);
+      res.json({
+        overdue: due.filter(a => a.scheduledAt! < startOfToday),
+        today: due.filter(a => a.scheduledAt! >= startOfToday),
+      });
+    } catch (error) {
+      console.error("Error fetching follow-ups:", error);
+      res.status(500).json({ message: "Failed to fetch follow-ups" });
+    }
+  });
 
-      // Get the application first to find the user
+  app.get('/api/admin/analytics', requireAuth, requirePermission("analytics:read"), async (req: any, res) => {
+    try {
+      const users = await storage.getUsers();
       const applications = await storage.getAllApplications();
-      const application = applications.find(app => app.id === applicationId);
-      console.log(`🔍 Found application:`, application);
       
+      const analytics = {
+        userRegistrations: users.map(u => ({
+          date: u.createdAt,
+          count: 1
+        })),
+        applicationSubmissions: applications.map(a => ({
+          date: a.createdAt,
+          count: 1,
+          status: a.status
+        }))
+      };
+
+      res.json(analytics);
+    } catch (error) {
+      console.error("Error fetching analytics:", error);
+      res.status(500).json({ message: "Failed to fetch analytics" });
+    }
+  });
+
+  app.post('/api/admin/applications/:id/assign', requireAuth, requirePermission("applications:assign"), async (req: any, res) => {
+    try {
+      const { assigneeId } = z.object({ assigneeId: z.string().nullable() }).parse(req.body);
+      if (assigneeId) {
+        const assignee = await storage.getAdminUserByUserId(assigneeId);
+        if (!assignee?.isActive) {
+          return res.status(400).json({ message: "Assignee must be an active staff member" });
+        }
+      }
+      const application = await storage.assignApplication(parseInt(req.params.id), assigneeId);
       if (!application) {
         return res.status(404).json({ message: "Application not found" });
       }
+      res.json(application);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error assigning application:", error);
+      res.status(500).json({ message: "Failed to assign application" });
+    }
+  });
+
+  // Role management (super_admin only by default)
+  app.get('/api/admin/roles', requireAuth, requirePermission("roles:manage"), async (req: any, res) => {
+    try {
+      const adminUsers = await storage.getAdminUsers();
+      res.json(adminUsers);
+    } catch (error) {
+      console.error("Error fetching admin roles:", error);
+      res.status(500).json({ message: "Failed to fetch admin roles" });
+    }
+  });
+
+  app.put('/api/admin/roles/:userId', requireAuth, requirePermission("roles:manage"), async (req: any, res) => {
+    try {
+      const { userId } = req.params;
+      if (userId === req.user.id) {
+        return res.status(400).json({ message: "You cannot change your own role" });
+      }
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const adminUserData = insertAdminUserSchema.parse({ isActive: true, permissions: [], ...req.body, userId });
+      const adminUser = await storage.upsertAdminUser(adminUserData);
+      res.json(adminUser);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating admin role:", error);
+      res.status(500).json({ message: "Failed to update admin role" });
+    }
+  });
+
+  app.delete('/api/admin/roles/:userId', requireAuth, requirePermission("roles:manage"), async (req: any, res) => {
+    try {
+      const { userId } = req.params;
+      if (userId === req.user.id) {
+        return res.status(400).json({ message: "You cannot revoke your own access" });
+      }
+      const existing = await storage.getAdminUserByUserId(userId);
+      if (!existing) {
+        return res.status(404).json({ message: "Admin user not found" });
+      }
+      const adminUser = await storage.deactivateAdminUser(userId);
+      res.json(adminUser);
+    } catch (error) {
+      console.error("Error revoking admin role:", error);
+      res.status(500).json({ message: "Failed to revoke admin role" });
+    }
+  });
 
-      // Update the application status
-      const updatedApplication = await storage.updateApplicationStatus(applicationId, status);
-      console.log(`✅ Application status updated successfully`);
+  // Tie a counselor profile to a login account, granting the counselor role
+  app.put('/api/admin/counselors/:id/account', requireAuth, requirePermission("roles:manage"), async (req: any, res) => {
+    try {
+      const { userId, email } = z.object({
+        userId: z.string().optional(),
+        email: z.string().email().optional(),
+      }).refine((body) => body.userId || body.email, { message: "userId or email is required" }).parse(req.body);
 
-      // Get course details for the notification
-      const courses = await storage.getCourses();
-      const universities = await storage.getUniversities();
-      
-      let courseInfo = "your application";
-      if (application.selectedCourses && application.selectedCourses.length > 0) {
-        const course = courses.find(c => c.id === application.selectedCourses[0]);
-        if (course) {
-          const university = universities.find(u => u.id === course.universityId);
-          courseInfo = `${course.name}${university ? ` at ${university.name}` : ''}`;
+      const counselor = await storage.getCounselorById(parseInt(req.params.id));
+      if (!counselor) {
+        return res.status(404).json({ message: "Counselor not found" });
+      }
+      const user = userId ? await storage.getUser(userId) : await storage.getUserByEmail(email!.toLowerCase());
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const linked = await storage.getCounselorByUserId(user.id);
+      if (linked && linked.id !== counselor.id) {
+        return res.status(409).json({ message: `Account is already linked to counselor ${linked.name}` });
+      }
+      // Linking would demote legacy users.isAdmin admins and revive any old role's extra grants,
+      // so only plain users and existing counselors can be linked
+      const existingRole = await storage.getAdminUserByUserId(user.id);
+      if (user.isAdmin || (existingRole && existingRole.role !== "counselor")) {
+        return res.status(409).json({ message: `Account already has the ${existingRole?.role ?? "admin"} role` });
+      }
+
+      await storage.upsertAdminUser(insertAdminUserSchema.parse({
+        userId: user.id,
+        role: "counselor",
+        isActive: true,
+        permissions: [],
+      }));
+      const updated = await storage.linkCounselorAccount(counselor.id, user.id);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error linking counselor account:", error);
+      res.status(500).json({ message: "Failed to link counselor account" });
+    }
+  });
+
+  // Unlinking leaves the role in place; revoke it separately through /api/admin/roles
+  app.delete('/api/admin/counselors/:id/account', requireAuth, requirePermission("roles:manage"), async (req: any, res) => {
+    try {
+      const counselor = await storage.linkCounselorAccount(parseInt(req.params.id), null);
+      if (!counselor) {
+        return res.status(404).json({ message: "Counselor not found" });
+      }
+      res.json(counselor);
+    } catch (error) {
+      console.error("Error unlinking counselor account:", error);
+      res.status(500).json({ message: "Failed to unlink counselor account" });
+    }
+  });
+
+  // Counselor portal: everything is scoped to the signed-in counselor's own profile
+  app.get('/api/counselor/me', requireAuth, requireCounselor, async (req: any, res) => {
+    try {
+      const profiles = await storage.getCounselorProfiles({ includeInactive: true });
+      res.json(profiles.find((profile) => profile.id === req.counselor.id));
+    } catch (error) {
+      console.error("Error fetching counselor profile:", error);
+      res.status(500).json({ message: "Failed to fetch profile" });
+    }
+  });
+
+  app.patch('/api/counselor/me', requireAuth, requireCounselor, async (req: any, res) => {
+    try {
+      const updates = counselorSelfUpdateSchema.parse(req.body);
+      if (Object.keys(updates).length === 0) {
+        return res.status(400).json({ message: "No fields to update" });
+      }
+      const counselor = await storage.updateCounselor(req.counselor.id, updates);
+      res.json(counselor);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating counselor profile:", error);
+      res.status(500).json({ message: "Failed to update profile" });
+    }
+  });
+
+  app.get('/api/counselor/leads', requireAuth, requireCounselor, async (req: any, res) => {
+    try {
+      const leads = await storage.getLeads({
+        assignedTo: req.user.id,
+        status: req.query.status as string | undefined,
+      });
+      res.json(leads);
+    } catch (error) {
+      console.error("Error fetching counselor leads:", error);
+      res.status(500).json({ message: "Failed to fetch leads" });
+    }
+  });
+
+  app.get('/api/counselor/applications', requireAuth, requireCounselor, async (req: any, res) => {
+    try {
+      const applications = await storage.getAllApplications({ assignedTo: req.user.id });
+      res.json(applications);
+    } catch (error) {
+      console.error("Error fetching counselor applications:", error);
+      res.status(500).json({ message: "Failed to fetch applications" });
+    }
+  });
+
+  app.get('/api/counselor/appointments', requireAuth, requireCounselor, async (req: any, res) => {
+    try {
+      const appointments = await storage.getAppointments({
+        counselorId: req.counselor.id,
+        from: new Date(),
+        status: "booked",
+      });
+      res.json(appointments);
+    } catch (error) {
+      console.error("Error fetching counselor appointments:", error);
+      res.status(500).json({ message: "Failed to fetch appointments" });
+    }
+  });
+
+  app.get('/api/admin/applications/:id/history', requireAuth, requirePermission("applications:read"), async (req: any, res) => {
+    try {
+      const applicationId = parseInt(req.params.id);
+      const application = await storage.getApplicationById(applicationId);
+      if (!application || !canAccessAssigned(req.adminUser, application.assignedTo)) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      const history = await storage.getApplicationStatusHistory(applicationId);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching application history:", error);
+      res.status(500).json({ message: "Failed to fetch application history" });
+    }
+  });
+
+  // Per-course choices with individual university decisions
+  app.get('/api/admin/applications/:id/choices', requireAuth, requirePermission("applications:read"), async (req: any, res) => {
+    try {
+      const applicationId = parseInt(req.params.id);
+      const application = await storage.getApplicationById(applicationId);
+      if (!application || !canAccessAssigned(req.adminUser, application.assignedTo)) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      const choices = await storage.getApplicationChoices(applicationId);
+      res.json(choices);
+    } catch (error) {
+      console.error("Error fetching application choices:", error);
+      res.status(500).json({ message: "Failed to fetch application choices" });
+    }
+  });
+
+  app.patch('/api/admin/applications/:id/choices/:choiceId', requireAuth, requirePermission("applications:update"), async (req: any, res) => {
+    try {
+      const applicationId = parseInt(req.params.id);
+      const application = await storage.getApplicationById(applicationId);
+      if (!application || !canAccessAssigned(req.adminUser, application.assignedTo)) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      const updates = insertApplicationChoiceSchema
+        .pick({ status: true, offerType: true, offerConditions: true, decisionDate: true })
+        .partial()
+        .parse(req.body);
+      if (updates.status === "Offer Received" && !updates.offerType) {
+        return res.status(400).json({ message: "offerType is required when recording an offer" });
+      }
+      if (updates.offerType === "unconditional") {
+        updates.offerConditions = null;
+      }
+      if ((updates.status === "Offer Received" || updates.status === "Unsuccessful") && !updates.decisionDate) {
+        updates.decisionDate = new Date();
+      }
+
+      const updated = await storage.updateApplicationChoice(applicationId, parseInt(req.params.choiceId), updates);
+      if (!updated) {
+        return res.status(404).json({ message: "Choice not found" });
+      }
+
+      if (updates.status) {
+        try {
+          const choice = (await storage.getApplicationChoices(applicationId)).find(c => c.id === updated.id);
+          const notification = choice && buildChoiceNotification(choice);
+          if (notification) {
+            await storage.createNotification({ userId: application.userId, ...notification, isRead: false });
+          }
+        } catch (notificationError) {
+          console.error("Failed to create choice notification:", notificationError);
         }
       }
 
-      console.log(`🔔 About to create notification for user: ${application.userId}`);
-      // Create notification for the user
-      await storage.createNotification({
-        userId: application.userId,
-        type: 'application',
-        title: 'Application Status Updated',
-        message: `Your application status for ${courseInfo} has been updated to: ${status}`,
-        isRead: false
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error updating application choice:", error);
+      res.status(500).json({ message: "Failed to update application choice" });
+    }
+  });
+
+  // Document review for staff
+  app.get('/api/admin/applications/:id/documents', requireAuth, requirePermission("applications:read"), async (req: any, res) => {
+    try {
+      const applicationId = parseInt(req.params.id);
+      const application = await storage.getApplicationById(applicationId);
+      if (!application || !canAccessAssigned(req.adminUser, application.assignedTo)) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+      const documents = await storage.getApplicationDocuments(applicationId);
+      res.json({ documents, checklist: buildDocumentChecklist(application.status, documents) });
+    } catch (error) {
+      console.error("Error fetching documents:", error);
+      res.status(500).json({ message: "Failed to fetch documents" });
+    }
+  });
+
+  app.get('/api/admin/applications/:id/documents/:documentId/download', requireAuth, requirePermission("applications:read"), async (req: any, res) => {
+    try {
+      const applicationId = parseInt(req.params.id);
+      const application = await storage.getApplicationById(applicationId);
+      const document = await storage.getApplicationDocument(applicationId, parseInt(req.params.documentId));
+      if (!application || !canAccessAssigned(req.adminUser, application.assignedTo) || !document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+      await sendDocument(res, document);
+    } catch (error) {
+      console.error("Error downloading document:", error);
+      res.status(500).json({ message: "Failed to download document" });
+    }
+  });
+
+  app.patch('/api/admin/applications/:id/documents/:documentId/review', requireAuth, requirePermission("applications:update"), async (req: any, res) => {
+    try {
+      const applicationId = parseInt(req.params.id);
+      const application = await storage.getApplicationById(applicationId);
+      const document = await storage.getApplicationDocument(applicationId, parseInt(req.params.documentId));
+      if (!application || !canAccessAssigned(req.adminUser, application.assignedTo) || !document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      const { reviewStatus, reviewComment } = z.object({
+        reviewStatus: z.enum(["accepted", "rejected"]),
+        reviewComment: z.string().max(1000).optional(),
+      }).parse(req.body);
+      if (reviewStatus === "rejected" && !reviewComment) {
+        return res.status(400).json({ message: "A comment is required when rejecting a document" });
+      }
+
+      const reviewed = await storage.reviewApplicationDocument(document.id, {
+        reviewStatus,
+        reviewComment: reviewComment ?? null,
+        reviewedBy: req.user.id,
       });
 
-      console.log(`✅ Application ${applicationId} status updated to "${status}" and notification sent to user ${application.userId}`);
-      console.log(`🔔 Created notification:`, { userId: application.userId, type: 'application', title: 'Application Status Updated' });
-      
+      if (reviewStatus === "rejected") {
+        try {
+          await storage.createNotification({
+            userId: application.userId,
+            type: "application",
+            title: "Document Needs Attention",
+            message: `Your ${document.type.replace(/_/g, ' ')} (${document.fileName}) was not accepted: ${reviewComment}. Please upload a new copy.`,
+            isRead: false
+          });
+        } catch (notificationError) {
+          console.error("Failed to create document notification:", notificationError);
+        }
+      }
+
+      res.json(reviewed);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error reviewing document:", error);
+      res.status(500).json({ message: "Failed to review document" });
+    }
+  });
+
+  // Average time-in-stage and SLA breaches for applications active in the last `days` days
+  app.get('/api/admin/reports/application-sla', requireAuth, requirePermission("analytics:read"), async (req: any, res) => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 90, 1), 365);
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const history = await storage.getStatusHistorySince(since);
+      res.json(buildSlaReport(history, since));
+    } catch (error) {
+      console.error("Error building SLA report:", error);
+      res.status(500).json({ message: "Failed to build SLA report" });
+    }
+  });
+
+  // Application status update endpoint; enforces the pipeline and notifies the student
+  app.patch('/api/admin/applications/:id/status', requireAuth, requirePermission("applications:update"), async (req: any, res) => {
+    try {
+      const applicationId = parseInt(req.params.id);
+      const { status, reason } = z.object({
+        status: z.enum(APPLICATION_STATUSES),
+        reason: z.string().max(1000).optional(),
+      }).parse(req.body);
+
+      const application = await storage.getApplicationById(applicationId);
+      if (!application || !canAccessAssigned(req.adminUser, application.assignedTo)) {
+        return res.status(404).json({ message: "Application not found" });
+      }
+
+      if (!canTransition(application.status, status)) {
+        const allowed = allowedTransitions(application.status);
+        return res.status(409).json({
+          message: `Cannot change status from "${application.status}" to "${status}". ${allowed.length > 0 ? `Allowed next statuses: ${allowed.join(', ')}` : 'This application is in a final state.'}`,
+          currentStatus: application.status,
+          allowedStatuses: allowed,
+        });
+      }
+
+      const updatedApplication = await storage.updateApplicationStatus(applicationId, status, {
+        expectedStatus: application.status,
+        changedBy: req.user.id,
+        reason,
+      });
+      if (!updatedApplication) {
+        return res.status(409).json({ message: "Application status was changed by someone else, please refresh and try again" });
+      }
+      console.log(`✅ Application ${applicationId} status updated from "${application.status}" to "${status}"`);
+
+      try {
+        const choices = await storage.getApplicationChoices(applicationId);
+        const courseInfo = describeApplicationCourses(choices, "your application");
+
+        const notification = buildStatusNotification(status, courseInfo);
+        await storage.createNotification({
+          userId: application.userId,
+          ...notification,
+          isRead: false
+        });
+      } catch (notificationError) {
+        console.error("Failed to create status notification:", notificationError);
+        // Don't fail the status change if the notification fails
+      }
+
       res.json(updatedApplication);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       console.error("Error updating application status:", error);
       res.status(500).json({ message: "Failed to update application status" });
     }
   });
 
   // Admin notification sending endpoint  
-  app.post('/api/admin/notifications', requireAuth, async (req: any, res) => {
-    console.log(`🔥 Admin notification endpoint called`);
+  app.post('/api/admin/notifications', requireAuth, requirePermission("notifications:broadcast"), async (req: any, res) => {
     try {
-      const currentUser = await storage.getUser(req.user.id);
-      if (!currentUser?.isAdmin) {
-        console.log(`❌ Admin access denied for user: ${req.user.id}`);
-        return res.status(403).json({ message: "Admin access required" });
-      }
-
       const { userIds, type, title, message } = req.body;
-      console.log(`📨 Admin notification request:`, { userIds, type, title, message });
 
       if (!type || !title || !message) {
         return res.status(400).json({ message: "Missing required fields: type, title, message" });
@@ -526,17 +2575,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!userIds || userIds.length === 0) {
         // Send to all users
         targetUsers = await storage.getUsers();
-        console.log(`📢 Sending notification to all ${targetUsers.length} users`);
       } else {
         // Send to specific users
         targetUsers = userIds.map((id: string) => ({ id }));
-        console.log(`📢 Sending notification to ${targetUsers.length} specific users:`, userIds);
       }
 
       // Create notifications for each target user
       const notifications = [];
       for (const user of targetUsers) {
-        console.log(`🔔 Creating notification for user: ${user.id}`);
         const notification = await storage.createNotification({
           userId: user.id,
           type,
@@ -547,7 +2593,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         notifications.push(notification);
       }
 
-      console.log(`✅ Admin notifications sent to ${notifications.length} users: ${title}`);
       res.json({ success: true, message: `Notification sent to ${notifications.length} users`, notifications });
     } catch (error) {
       console.error("Error sending admin notification:", error);
@@ -555,6 +2600,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Email outbox: every notification is also queued for email delivery
+  app.get('/api/admin/emails', requireAuth, requirePermission("notifications:broadcast"), async (req: any, res) => {
+    try {
+      const emails = await storage.getEmails({
+        status: req.query.status as string | undefined,
+        userId: req.query.userId as string | undefined,
+      });
+      res.json(emails);
+    } catch (error) {
+      console.error("Error fetching emails:", error);
+      res.status(500).json({ message: "Failed to fetch emails" });
+    }
+  });
+
+  app.post('/api/admin/emails/:id/retry', requireAuth, requirePermission("notifications:broadcast"), async (req: any, res) => {
+    try {
+      const email = await storage.getEmailById(parseInt(req.params.id));
+      if (!email) {
+        return res.status(404).json({ message: "Email not found" });
+      }
+      const requeued = await retryEmail(email);
+      if (!requeued) {
+        return res.status(409).json({ message: "Only failed emails can be retried" });
+      }
+      res.json(requeued);
+    } catch (error) {
+      console.error("Error retrying email:", error);
+      res.status(500).json({ message: "Failed to retry email" });
+    }
+  });
+
+  app.post('/api/admin/emails/suppressions/clear', requireAuth, requirePermission("notifications:broadcast"), async (req: any, res) => {
+    try {
+      const { address } = z.object({ address: z.string().email() }).parse(req.body);
+      const cleared = await storage.clearEmailSuppression(address);
+      if (cleared === 0) {
+        return res.status(404).json({ message: "Address is not suppressed" });
+      }
+      res.json({ address: address.toLowerCase(), cleared });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error clearing email suppression:", error);
+      res.status(500).json({ message: "Failed to clear suppression" });
+    }
+  });
+
+  // Bounce notifications from the mail provider, authenticated with EMAIL_WEBHOOK_TOKEN
+  app.post('/api/webhooks/email/bounce', async (req: any, res) => {
+    try {
+      const expected = process.env.EMAIL_WEBHOOK_TOKEN;
+      const provided = req.get('x-email-token');
+      if (!expected || !provided || provided.length !== expected.length
+        || !timingSafeEqual(Buffer.from(provided), Buffer.from(expected))) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const bounce = emailBounceSchema.parse(req.body);
+      const email = await recordBounce(bounce);
+      if (!email) {
+        return res.status(404).json({ message: "Email not found" });
+      }
+      res.json({ id: email.id, status: email.status });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      console.error("Error recording email bounce:", error);
+      res.status(500).json({ message: "Failed to record bounce" });
+    }
+  });
+
   // SEO Routes - Sitemap and robots.txt
   app.get('/api/sitemap.xml', async (req, res) => {
     try {
@@ -0,0 +1,66 @@
+import { storage } from "./storage";
+import type { ScholarshipMatch, ScholarshipWithInstitution, User } from "@shared/schema";
+
+// Cross-field rules the insert schema can't express; returns a message for the first problem found
+export async function checkScholarship(
+  scholarship: { universityId: number; courseId?: number | null; amountType: string; amount: string },
+): Promise<string | undefined> {
+  if (scholarship.amountType === "percentage" && parseFloat(scholarship.amount) > 100) {
+    return "Percentage awards can't exceed 100";
+  }
+  const university = await storage.getUniversityById(scholarship.universityId);
+  if (!university) {
+    return "University not found";
+  }
+  if (scholarship.courseId != null) {
+    const course = await storage.getCourseById(scholarship.courseId);
+    if (!course || course.universityId !== scholarship.universityId) {
+      return "Course not found at this university";
+    }
+  }
+  return undefined;
+}
+
+// Levels the award is open to: its own list, else the linked course's level, else any (null)
+function eligibleLevels(scholarship: ScholarshipWithInstitution): string[] | null {
+  if (scholarship.levels && scholarship.levels.length > 0) return scholarship.levels;
+  return scholarship.course ? [scholarship.course.level] : null;
+}
+
+// Checks a scholarship against the student's profile. Criteria the profile has no data for are
+// not held against the student but listed as unverified, so the UI can prompt them to fill it in.
+export function matchScholarship(scholarship: ScholarshipWithInstitution, student: User): ScholarshipMatch | null {
+  const unverified: ScholarshipMatch["unverified"] = [];
+
+  const nationalities = scholarship.nationalities ?? [];
+  if (nationalities.length > 0) {
+    if (!student.nationality) unverified.push("nationality");
+    else if (!nationalities.includes(student.nationality)) return null;
+  }
+
+  const levels = eligibleLevels(scholarship);
+  if (levels) {
+    if (!student.studyLevel) unverified.push("studyLevel");
+    else if (!levels.includes(student.studyLevel)) return null;
+  }
+
+  if (scholarship.minGrade != null) {
+    if (student.academicGrade == null) unverified.push("academicGrade");
+    else if (parseFloat(student.academicGrade) < parseFloat(scholarship.minGrade)) return null;
+  }
+
+  return { ...scholarship, unverified };
+}
+
+// Fully verified matches first; within each group the search order (nearest deadline) is kept
+export function findEligibleScholarships(scholarships: ScholarshipWithInstitution[], student: User): ScholarshipMatch[] {
+  const matches: ScholarshipMatch[] = [];
+  for (const scholarship of scholarships) {
+    const match = matchScholarship(scholarship, student);
+    if (match) matches.push(match);
+  }
+  return matches
+    .map((match, index) => ({ match, index }))
+    .sort((a, b) => (a.match.unverified.length - b.match.unverified.length) || (a.index - b.index))
+    .map(({ match }) => match);
+}
@@ -58,7 +58,7 @@ export async function seedSampleData() {
         level: "Masters",
         duration: "12 months",
         tuitionFee: "35000",
-        currency: "£",
+        currency: "GBP",
         ieltsOverall: "7.0",
         ieltsListening: "6.5",
         ieltsReading: "6.5",
@@ -73,7 +73,7 @@ export async function seedSampleData() {
         level: "Masters",
         duration: "24 months",
         tuitionFee: "45000",
-        currency: "£",
+        currency: "GBP",
         ieltsOverall: "7.5",
         ieltsListening: "7.0",
         ieltsReading: "7.0",
@@ -88,7 +88,7 @@ export async function seedSampleData() {
         level: "Masters",
         duration: "12 months",
         tuitionFee: "38000",
-        currency: "£",
+        currency: "GBP",
         ieltsOverall: "6.5",
         ieltsListening: "6.0",
         ieltsReading: "6.0",
@@ -103,7 +103,7 @@ export async function seedSampleData() {
         level: "Masters",
         duration: "12 months",
         tuitionFee: "42000",
-        currency: "£",
+        currency: "GBP",
         ieltsOverall: "7.5",
         ieltsListening: "7.0",
         ieltsReading: "7.0",
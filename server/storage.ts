@@ -8,6 +8,27 @@ import {
   notifications,
   tutorials,
   adminUsers,
+  applicationStatusHistory,
+  applicationChoices,
+  applicationDocuments,
+  leads,
+  leadActivities,
+  leadAssignmentSettings,
+  courseEnglishRequirements,
+  englishTestEquivalences,
+  exchangeRates,
+  courseIntakes,
+  deadlineReminders,
+  scholarships,
+  counselorAvailability,
+  counselorTimeOff,
+  appointments,
+  counselorRatings,
+  outboundMessages,
+  emailOutbox,
+  APPLICATION_STATUSES,
+  APPLICATION_STATUS_TRANSITIONS,
+  CURRENCY_SYMBOLS,
   type User,
   type UpsertUser,
   type University,
@@ -15,6 +36,32 @@ import {
   type Course,
   type InsertCourse,
   type CourseWithUniversity,
+  type CourseEnglishRequirement,
+  type InsertCourseEnglishRequirement,
+  type EnglishTest,
+  type EnglishTestEquivalence,
+  type EnglishTestEquivalenceRow,
+  type CourseFilters,
+  type CourseSearchParams,
+  type ExchangeRate,
+  type CourseIntake,
+  type Scholarship,
+  type CounselorAvailability,
+  type CounselorAvailabilityWindow,
+  type CounselorTimeOff,
+  type InsertCounselorTimeOff,
+  type Appointment,
+  type CounselorProfile,
+  type CounselorRating,
+  type AppointmentWithParties,
+  type InsertScholarship,
+  type ScholarshipSearchParams,
+  type ScholarshipWithInstitution,
+  type StudentProfile,
+  type InsertCourseIntake,
+  type InsertExchangeRate,
+  type CourseSearchResult,
+  type FacetCount,
   type Counselor,
   type InsertCounselor,
   type Favorite,
@@ -22,44 +69,168 @@ import {
   type FavoriteWithCourse,
   type Application,
   type InsertApplication,
+  type ApplicationStatusHistory,
+  type ApplicationChoice,
+  type InsertApplicationChoice,
+  type ApplicationChoiceWithCourse,
+  type ApplicationWithChoices,
+  type ApplicationDocument,
+  type InsertApplicationDocument,
   type Notification,
   type InsertNotification,
   type Tutorial,
   type InsertTutorial,
+  type Lead,
+  type InsertLead,
+  type LeadWithActivities,
+  type LeadFilters,
+  type LeadActivity,
+  type InsertLeadActivity,
+  type LeadActivityWithLead,
+  type LeadConversionResult,
+  type CatalogueWrite,
+  type LeadConversionStats,
+  type LeadAssignmentSettings,
+  type InsertLeadAssignmentSettings,
+  type AssignmentCandidate,
+  type AdminUser,
+  type InsertAdminUser,
+  type AdminUserWithUser,
+  type OutboundMessage,
+  type InsertOutboundMessage,
+  type OutboundMessageFilters,
+  type EmailOutbox,
+  type InsertEmailOutbox,
+  type EmailOutboxFilters,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, ilike, inArray, gte } from "drizzle-orm";
+import { buildRateTable, tuitionInGbp, tuitionRangeConditions } from "./currency";
+import { renderNotificationEmail } from "./emailTemplates";
+import { eq, and, or, desc, asc, ilike, inArray, notInArray, gte, lt, lte, isNull, exists, sql, type SQL } from "drizzle-orm";
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
   getUser(id: string): Promise<User | undefined>;
+  updateUserProfile(id: string, profile: StudentProfile): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  deleteUser(id: string): Promise<void>;
   upsertUser(user: UpsertUser): Promise<User>;
 
   // University operations
-  getUniversities(): Promise<University[]>;
+  getUniversities(options?: { includeInactive?: boolean }): Promise<University[]>;
+  getUniversityById(id: number): Promise<University | undefined>;
+  getUniversityByExternalCode(code: string): Promise<University | undefined>;
   createUniversity(university: InsertUniversity): Promise<University>;
+  updateUniversity(id: number, updates: Partial<InsertUniversity>): Promise<University | undefined>;
+  countActiveCourses(universityId: number): Promise<number>;
 
   // Course operations
-  getCourses(filters?: { search?: string; faculty?: string; level?: string; ieltsScore?: string }): Promise<CourseWithUniversity[]>;
+  getCourses(filters?: CourseFilters): Promise<CourseWithUniversity[]>;
+  searchCourses(params: CourseSearchParams): Promise<CourseSearchResult>;
   getCourseById(id: number): Promise<CourseWithUniversity | undefined>;
+  resolveCourseReferences(references: string[]): Promise<number[]>;
+  findMissingCourseIds(ids: number[]): Promise<number[]>;
   createCourse(course: InsertCourse): Promise<Course>;
+  updateCourse(id: number, updates: Partial<InsertCourse>): Promise<Course | undefined>;
+  countCourseApplications(courseId: number): Promise<number>;
+  getCourseByExternalCode(code: string): Promise<Course | undefined>;
+  assignMissingExternalCodes(): Promise<void>;
+  applyCatalogueImport(writes: CatalogueWrite[]): Promise<number[]>;
+
+  // Scholarship operations
+  searchScholarships(params: Partial<ScholarshipSearchParams>): Promise<ScholarshipWithInstitution[]>;
+  getScholarshipById(id: number): Promise<Scholarship | undefined>;
+  createScholarship(scholarship: InsertScholarship): Promise<Scholarship>;
+  updateScholarship(id: number, updates: Partial<InsertScholarship>): Promise<Scholarship | undefined>;
+
+  // Course intake operations
+  getCourseIntakes(courseIds: number[], options?: { openOnly?: boolean }): Promise<CourseIntake[]>;
+  getCourseIntakeById(id: number): Promise<CourseIntake | undefined>;
+  createCourseIntake(courseId: number, intake: InsertCourseIntake): Promise<CourseIntake>;
+  updateCourseIntake(id: number, updates: Partial<InsertCourseIntake>): Promise<CourseIntake | undefined>;
+  deleteCourseIntake(id: number): Promise<boolean>;
+  claimDeadlineReminders(deadlineBy: string): Promise<CourseIntake[]>;
+  releaseDeadlineReminder(intakeId: number): Promise<void>;
+  getUnremindedUserIds(intake: CourseIntake): Promise<string[]>;
+  recordDeadlineReminder(intakeId: number, userId: string): Promise<void>;
+  normalizeCourseCurrencies(): Promise<number>;
+
+  // Exchange rate operations
+  getLatestExchangeRates(): Promise<ExchangeRate[]>;
+  getExchangeRates(currency?: string): Promise<ExchangeRate[]>;
+  upsertExchangeRates(rates: InsertExchangeRate[], updatedBy: string): Promise<ExchangeRate[]>;
+
+  // English test requirement operations
+  getCourseEnglishRequirements(courseId?: number): Promise<CourseEnglishRequirement[]>;
+  replaceCourseEnglishRequirements(courseId: number, requirements: InsertCourseEnglishRequirement[]): Promise<CourseEnglishRequirement[]>;
+  getEnglishTestEquivalences(testType?: EnglishTest): Promise<EnglishTestEquivalence[]>;
+  replaceEnglishTestEquivalences(testType: EnglishTest, rows: EnglishTestEquivalenceRow[], updatedBy: string): Promise<EnglishTestEquivalence[]>;
 
   // Counselor operations
-  getCounselors(): Promise<Counselor[]>;
+  getCounselors(options?: { includeInactive?: boolean }): Promise<Counselor[]>;
+  getCounselorById(id: number): Promise<Counselor | undefined>;
+  getCounselorByUserId(userId: string): Promise<Counselor | undefined>;
+  linkCounselorAccount(id: number, userId: string | null): Promise<Counselor | undefined>;
   createCounselor(counselor: InsertCounselor): Promise<Counselor>;
+  updateCounselor(id: number, updates: Partial<InsertCounselor>): Promise<Counselor | undefined>;
+  countOpenLeadsForCounselor(counselor: Counselor): Promise<number>;
+  getCounselorProfiles(options?: { includeInactive?: boolean }): Promise<CounselorProfile[]>;
+  hasCounselorServedStudent(counselor: Counselor, userId: string): Promise<boolean>;
+  upsertCounselorRating(counselorId: number, userId: string, rating: { rating: number; comment?: string }): Promise<CounselorRating>;
+
+  // Appointment operations
+  getCounselorAvailability(counselorId: number): Promise<CounselorAvailability[]>;
+  replaceCounselorAvailability(counselorId: number, windows: CounselorAvailabilityWindow[]): Promise<CounselorAvailability[]>;
+  getCounselorTimeOff(counselorId: number, from?: Date): Promise<CounselorTimeOff[]>;
+  createCounselorTimeOff(counselorId: number, timeOff: InsertCounselorTimeOff): Promise<CounselorTimeOff>;
+  deleteCounselorTimeOff(counselorId: number, id: number): Promise<boolean>;
+  getAppointments(filters: { userId?: string; counselorId?: number; from?: Date; status?: string }): Promise<AppointmentWithParties[]>;
+  getAppointmentById(id: number): Promise<AppointmentWithParties | undefined>;
+  bookAppointment(appointment: {
+    counselorId: number;
+    userId: string;
+    startsAt: Date;
+    endsAt: Date;
+    studentTimezone: string;
+    notes?: string;
+  }): Promise<Appointment | undefined>;
+  rescheduleAppointment(id: number, startsAt: Date, endsAt: Date): Promise<Appointment | undefined>;
+  cancelAppointment(id: number, cancelledBy: string, reason?: string): Promise<Appointment | undefined>;
 
   // Favorites operations
   getUserFavorites(userId: string): Promise<FavoriteWithCourse[]>;
   addToFavorites(userId: string, courseId: number): Promise<Favorite>;
-  removeFromFavorites(userId: string, courseId: number): Promise<void>;
+  removeFromFavorites(userId: string, courseId: number): Promise<boolean>;
   isFavorite(userId: string, courseId: number): Promise<boolean>;
 
 
 
   // Application operations
   createApplication(application: InsertApplication): Promise<Application>;
-  getUserApplications(userId: string): Promise<any[]>;
-  updateApplicationStatus(id: number, status: string): Promise<Application>;
+  getUserApplications(userId: string): Promise<ApplicationWithChoices[]>;
+  getApplicationChoices(applicationId: number): Promise<ApplicationChoiceWithCourse[]>;
+  updateApplicationChoice(
+    applicationId: number,
+    choiceId: number,
+    updates: Partial<Pick<InsertApplicationChoice, "status" | "offerType" | "offerConditions" | "decisionDate">>,
+  ): Promise<ApplicationChoice | undefined>;
+  updateApplicationStatus(
+    id: number,
+    status: string,
+    change?: { expectedStatus?: string | null; changedBy?: string; reason?: string },
+  ): Promise<Application | undefined>;
+  getApplicationStatusHistory(applicationId: number): Promise<ApplicationStatusHistory[]>;
+
+  // Application document operations
+  getApplicationDocuments(applicationId: number): Promise<ApplicationDocument[]>;
+  getApplicationDocument(applicationId: number, documentId: number): Promise<ApplicationDocument | undefined>;
+  createApplicationDocument(document: InsertApplicationDocument): Promise<ApplicationDocument>;
+  reviewApplicationDocument(
+    documentId: number,
+    review: { reviewStatus: string; reviewComment?: string | null; reviewedBy: string },
+  ): Promise<ApplicationDocument | undefined>;
+  deleteApplicationDocument(documentId: number): Promise<void>;
+  getStatusHistorySince(since: Date): Promise<ApplicationStatusHistory[]>;
 
   // Notification operations
   getUserNotifications(userId: string): Promise<Notification[]>;
@@ -68,14 +239,159 @@ export interface IStorage {
   getUnreadNotificationCount(userId: string): Promise<number>;
 
   // Tutorial operations
-  getTutorials(): Promise<Tutorial[]>;
+  getTutorials(options?: { includeInactive?: boolean }): Promise<Tutorial[]>;
+  getTutorialById(id: number): Promise<Tutorial | undefined>;
   createTutorial(tutorial: InsertTutorial): Promise<Tutorial>;
+  updateTutorial(id: number, updates: Partial<InsertTutorial>): Promise<Tutorial | undefined>;
 
   // Admin operations
   getUsers(): Promise<User[]>;
-  getAllApplications(): Promise<Application[]>;
+  getAllApplications(filters?: { assignedTo?: string }): Promise<Application[]>;
+  getApplicationById(id: number): Promise<Application | undefined>;
+  assignApplication(id: number, assigneeId: string | null): Promise<Application | undefined>;
+
+  // Admin role operations
+  getAdminUserByUserId(userId: string): Promise<AdminUser | undefined>;
+  getAdminUsers(): Promise<AdminUserWithUser[]>;
+  upsertAdminUser(adminUser: InsertAdminUser): Promise<AdminUser>;
+  deactivateAdminUser(userId: string): Promise<AdminUser | undefined>;
+
+  // Lead (CRM) operations
+  getLeads(filters?: LeadFilters): Promise<LeadWithActivities[]>;
+  getLeadById(id: number): Promise<LeadWithActivities | undefined>;
+  createLead(lead: InsertLead): Promise<Lead>;
+  updateLead(id: number, updates: Partial<InsertLead>): Promise<Lead | undefined>;
+  archiveLead(id: number): Promise<Lead | undefined>;
+  findLeadByContact(email?: string | null, phone?: string | null): Promise<Lead | undefined>;
+  mergeLead(id: number, updates: Partial<InsertLead>, note: { subject: string; content?: string; performedBy?: string }): Promise<Lead | undefined>;
+
+  // Lead activity operations
+  getLeadActivities(leadId: number): Promise<LeadActivity[]>;
+  getLeadActivity(id: number): Promise<LeadActivity | undefined>;
+  createLeadActivity(activity: InsertLeadActivity): Promise<LeadActivity>;
+  updateLeadActivityStatus(id: number, status: string): Promise<LeadActivity | undefined>;
+  getDueFollowUps(userId: string, until: Date): Promise<LeadActivityWithLead[]>;
+
+  // Lead conversion operations
+  convertLead(
+    leadId: number,
+    conversion: { user: User; accountExisted: boolean; courseIds: number[]; target: "favorites" | "application"; performedBy: string },
+  ): Promise<LeadConversionResult | undefined>;
+  getLeadConversionStats(): Promise<LeadConversionStats>;
+
+  // Lead assignment operations
+  getLeadAssignmentSettings(): Promise<LeadAssignmentSettings>;
+  updateLeadAssignmentSettings(updates: Partial<InsertLeadAssignmentSettings>): Promise<LeadAssignmentSettings>;
+  getAssignmentCandidates(): Promise<AssignmentCandidate[]>;
+  assignLead(leadId: number, assigneeId: string, assignment: { performedBy?: string; reason: string }): Promise<Lead | undefined>;
+  getLeadByConvertedUserId(userId: string): Promise<Lead | undefined>;
+
+  // Outbound messaging operations
+  createOutboundMessage(message: InsertOutboundMessage): Promise<OutboundMessage>;
+  getOutboundMessages(filters?: OutboundMessageFilters): Promise<OutboundMessage[]>;
+  getOutboundMessageById(id: number): Promise<OutboundMessage | undefined>;
+  getOutboundMessageByProviderId(provider: string, providerMessageId: string): Promise<OutboundMessage | undefined>;
+  claimDueMessages(limit: number, staleBefore: Date): Promise<OutboundMessage[]>;
+  updateOutboundMessage(id: number, updates: Partial<InsertOutboundMessage>): Promise<OutboundMessage | undefined>;
+
+  // Email outbox operations
+  getEmails(filters?: EmailOutboxFilters): Promise<EmailOutbox[]>;
+  getEmailById(id: number): Promise<EmailOutbox | undefined>;
+  getEmailByMessageId(messageId: string): Promise<EmailOutbox | undefined>;
+  claimDueEmails(limit: number, staleBefore: Date): Promise<EmailOutbox[]>;
+  updateEmail(id: number, updates: Partial<InsertEmailOutbox>): Promise<EmailOutbox | undefined>;
+  clearEmailSuppression(toAddress: string): Promise<number>;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// First key of the two-part advisory lock used for appointment booking
+const APPOINTMENT_LOCK_NAMESPACE = 4201;
+
+// Serialises bookings per counselor so two overlapping requests can't both pass the clash check.
+// A unique-index violation from a racing insert is reported as a clash too.
+async function withSlotLock<T>(counselorId: number, work: (tx: Transaction) => Promise<T | undefined>): Promise<T | undefined> {
+  try {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${APPOINTMENT_LOCK_NAMESPACE}, ${counselorId})`);
+      return await work(tx);
+    });
+  } catch (error: any) {
+    if (error?.code === "23505") return undefined;
+    throw error;
+  }
+}
+
+// Queues the email copy of a notification alongside it, so neither is committed without the other.
+// Addresses with an uncleared hard bounce are recorded as suppressed instead of being sent to again.
+function suppressingBounce(toAddress: string): SQL {
+  return and(
+    eq(emailOutbox.toAddress, toAddress),
+    eq(emailOutbox.status, "bounced"),
+    eq(emailOutbox.bounceType, "hard"),
+    isNull(emailOutbox.suppressionClearedAt),
+  )!;
+}
+
+async function queueNotificationEmail(tx: Transaction, notification: Notification): Promise<void> {
+  const [user] = await tx.select().from(users).where(eq(users.id, notification.userId));
+  if (!user?.email) return;
+
+  const toAddress = user.email.toLowerCase();
+  const [bounced] = await tx
+    .select({ id: emailOutbox.id })
+    .from(emailOutbox)
+    .where(suppressingBounce(toAddress))
+    .limit(1);
+
+  await tx
+    .insert(emailOutbox)
+    .values({
+      idempotencyKey: `notification-${notification.id}`,
+      userId: user.id,
+      notificationId: notification.id,
+      toAddress,
+      template: notification.type ?? "info",
+      ...renderNotificationEmail(notification, user),
+      status: bounced ? "suppressed" : "queued",
+      lastError: bounced ? "Address has hard-bounced before" : null,
+    })
+    .onConflictDoNothing({ target: emailOutbox.idempotencyKey });
 }
 
+async function hasClash(tx: Transaction, counselorId: number, startsAt: Date, endsAt: Date, ignoreId?: number): Promise<boolean> {
+  const [appointment] = await tx
+    .select({ id: appointments.id })
+    .from(appointments)
+    .where(and(
+      eq(appointments.counselorId, counselorId),
+      eq(appointments.status, "booked"),
+      sql`${appointments.startsAt} < ${endsAt} and ${appointments.endsAt} > ${startsAt}`,
+      ignoreId !== undefined ? sql`${appointments.id} <> ${ignoreId}` : undefined,
+    ))
+    .limit(1);
+  if (appointment) return true;
+
+  const [timeOff] = await tx
+    .select({ id: counselorTimeOff.id })
+    .from(counselorTimeOff)
+    .where(and(
+      eq(counselorTimeOff.counselorId, counselorId),
+      sql`${counselorTimeOff.startsAt} < ${endsAt} and ${counselorTimeOff.endsAt} > ${startsAt}`,
+    ))
+    .limit(1);
+  return !!timeOff;
+}
+
+// Applications no counselor is working on any more
+const CLOSED_APPLICATION_STATUSES = APPLICATION_STATUSES.filter((status) => APPLICATION_STATUS_TRANSITIONS[status].length === 0);
+
+// Intakes still taking applications
+const openIntake = and(eq(courseIntakes.isOpen, true), sql`${courseIntakes.applicationDeadline} >= current_date`);
+
+// Minimum word_similarity for a misspelt query to still match
+const TRIGRAM_MATCH_THRESHOLD = 0.4;
+
 export class DatabaseStorage implements IStorage {
   // User operations (mandatory for Replit Auth)
   async getUser(id: string): Promise<User | undefined> {
@@ -83,6 +399,27 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserProfile(id: string, profile: StudentProfile): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ ...profile, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async deleteUser(id: string): Promise<void> {
+    await db.delete(users).where(eq(users.id, id));
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    return user;
+  }
+
   async upsertUser(userData: UpsertUser): Promise<User> {
     try {
       // Try to insert new user
@@ -111,8 +448,21 @@ export class DatabaseStorage implements IStorage {
   }
 
   // University operations
-  async getUniversities(): Promise<University[]> {
-    return await db.select().from(universities);
+  async getUniversities(options?: { includeInactive?: boolean }): Promise<University[]> {
+    return await db
+      .select()
+      .from(universities)
+      .where(options?.includeInactive ? undefined : eq(universities.isActive, true));
+  }
+
+  async getUniversityById(id: number): Promise<University | undefined> {
+    const [university] = await db.select().from(universities).where(eq(universities.id, id));
+    return university;
+  }
+
+  async getUniversityByExternalCode(code: string): Promise<University | undefined> {
+    const [university] = await db.select().from(universities).where(eq(universities.externalCode, code));
+    return university;
   }
 
   async createUniversity(university: InsertUniversity): Promise<University> {
@@ -120,8 +470,21 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async updateUniversity(id: number, updates: Partial<InsertUniversity>): Promise<University | undefined> {
+    const [updated] = await db.update(universities).set(updates).where(eq(universities.id, id)).returning();
+    return updated;
+  }
+
+  async countActiveCourses(universityId: number): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(courses)
+      .where(and(eq(courses.universityId, universityId), eq(courses.isActive, true)));
+    return count;
+  }
+
   // Course operations
-  async getCourses(filters?: { search?: string; faculty?: string; level?: string; ieltsScore?: string }): Promise<CourseWithUniversity[]> {
+  async getCourses(filters?: CourseFilters): Promise<CourseWithUniversity[]> {
     let query = db
       .select()
       .from(courses)
@@ -129,6 +492,10 @@ export class DatabaseStorage implements IStorage {
 
     const conditions = [];
 
+    if (!filters?.includeInactive) {
+      conditions.push(eq(courses.isActive, true), eq(universities.isActive, true));
+    }
+
     if (filters?.search) {
       conditions.push(ilike(courses.name, `%${filters.search}%`));
     }
@@ -142,9 +509,28 @@ export class DatabaseStorage implements IStorage {
     }
 
     if (filters?.ieltsScore && filters.ieltsScore !== "All IELTS Scores") {
-      // Convert to numeric for proper comparison
+      // A student's score qualifies for every course requiring that band or lower
       const numericScore = parseFloat(filters.ieltsScore);
-      conditions.push(eq(courses.ieltsOverall, numericScore.toString()));
+      if (!Number.isNaN(numericScore)) {
+        conditions.push(lte(courses.ieltsOverall, numericScore.toString()));
+      }
+    }
+
+    if (filters?.intake) {
+      conditions.push(exists(
+        db
+          .select({ id: courseIntakes.id })
+          .from(courseIntakes)
+          .where(and(eq(courseIntakes.courseId, courses.id), eq(courseIntakes.startMonth, filters.intake), openIntake)),
+      ));
+    }
+
+    if (filters?.minTuition !== undefined || filters?.maxTuition !== undefined) {
+      const rates = buildRateTable(await this.getLatestExchangeRates());
+      conditions.push(...tuitionRangeConditions(
+        { min: filters.minTuition, max: filters.maxTuition, currency: filters.tuitionCurrency },
+        rates,
+      ));
     }
 
     if (conditions.length > 0) {
@@ -159,6 +545,101 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  // Full-text search over course and university fields, with trigram matching for typos.
+  // Facet counts ignore their own dimension so the sidebar can show alternatives.
+  async searchCourses(params: CourseSearchParams): Promise<CourseSearchResult> {
+    const document = sql`concat_ws(' ', ${courses.name}, ${courses.faculty}, ${courses.level}, ${universities.name}, ${universities.city})`;
+    const tsQuery = params.q ? sql`websearch_to_tsquery('english', ${params.q})` : undefined;
+    const rank = params.q
+      ? sql<number>`(ts_rank(to_tsvector('english', ${document}), ${tsQuery}) + word_similarity(${params.q}, ${document}))::float`
+      : sql<number>`0::float`;
+
+    const filtersTuition = params.minTuition !== undefined || params.maxTuition !== undefined;
+    const rates = filtersTuition || params.sort === "tuitionFee"
+      ? buildRateTable(await this.getLatestExchangeRates())
+      : undefined;
+    const tuitionConditions = filtersTuition && rates
+      ? tuitionRangeConditions({ min: params.minTuition, max: params.maxTuition, currency: params.displayCurrency }, rates)
+      : [];
+
+    const buildConditions = (exclude?: "faculty" | "level" | "city") => {
+      const conditions: SQL[] = [eq(courses.isActive, true), eq(universities.isActive, true)];
+      if (params.q) {
+        // Typo matching uses <% on the name columns so their trigram indexes apply; the
+        // threshold comes from pg_trgm.word_similarity_threshold, set for the transaction below
+        conditions.push(sql`(to_tsvector('english', ${document}) @@ ${tsQuery}
+          or ${params.q} <% ${courses.name} or ${params.q} <% ${universities.name})`);
+      }
+      if (params.faculty && exclude !== "faculty") conditions.push(eq(courses.faculty, params.faculty));
+      if (params.level && exclude !== "level") conditions.push(eq(courses.level, params.level));
+      if (params.city && exclude !== "city") conditions.push(eq(universities.city, params.city));
+      if (params.ieltsScore !== undefined) conditions.push(lte(courses.ieltsOverall, params.ieltsScore.toString()));
+      conditions.push(...tuitionConditions);
+      return conditions.length > 0 ? and(...conditions) : undefined;
+    };
+
+    // "18 Months" sorts alongside "2 Years"
+    const durationYears = sql`(case when ${courses.duration} ilike '%month%' then 1.0 / 12 else 1 end)
+      * coalesce(substring(${courses.duration} from '[0-9]+(?:\.[0-9]+)?')::numeric, 0)`;
+    const sortColumns: Record<Exclude<CourseSearchParams["sort"], "relevance">, SQL> = {
+      // Compared in GBP so fees in different currencies order correctly; unconvertible fees go last
+      tuitionFee: rates ? tuitionInGbp(rates) : sql`${courses.tuitionFee}`,
+      ieltsOverall: sql`${courses.ieltsOverall}`,
+      duration: durationYears,
+      name: sql`${courses.name}`,
+    };
+    const sort = params.sort === "relevance" && !params.q ? "name" : params.sort;
+    const direction = params.order ?? (sort === "relevance" ? "desc" : "asc");
+    const sortExpression = sort === "relevance" ? rank : sortColumns[sort];
+    const orderBy = sql`${sortExpression} ${sql.raw(direction === "desc" ? "desc" : "asc")} nulls last`;
+
+    const where = buildConditions();
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select set_config('pg_trgm.word_similarity_threshold', ${String(TRIGRAM_MATCH_THRESHOLD)}, true)`);
+
+      const rows = await tx
+        .select({ course: courses, university: universities, rank })
+        .from(courses)
+        .innerJoin(universities, eq(courses.universityId, universities.id))
+        .where(where)
+        .orderBy(orderBy, asc(courses.id))
+        .limit(params.limit)
+        .offset(params.offset);
+
+      const [{ total }] = await tx
+        .select({ total: sql<number>`count(*)::int` })
+        .from(courses)
+        .innerJoin(universities, eq(courses.universityId, universities.id))
+        .where(where);
+
+      const facetCounts = async (column: SQL, dimension: "faculty" | "level" | "city"): Promise<FacetCount[]> => {
+        return await tx
+          .select({ value: sql<string>`${column}`, count: sql<number>`count(*)::int` })
+          .from(courses)
+          .innerJoin(universities, eq(courses.universityId, universities.id))
+          .where(buildConditions(dimension))
+          .groupBy(column)
+          .orderBy(desc(sql`count(*)`), asc(column));
+      };
+
+      const [faculty, level, city] = await Promise.all([
+        facetCounts(sql`${courses.faculty}`, "faculty"),
+        facetCounts(sql`${courses.level}`, "level"),
+        facetCounts(sql`${universities.city}`, "city"),
+      ]);
+
+      const nextOffset = params.offset + rows.length;
+      return {
+        items: rows.map((row) => ({ ...row.course, university: row.university, rank: row.rank })),
+        total,
+        limit: params.limit,
+        offset: params.offset,
+        nextOffset: nextOffset < total ? nextOffset : null,
+        facets: { faculty, level, city },
+      };
+    });
+  }
+
   async getCourseById(id: number): Promise<CourseWithUniversity | undefined> {
     const [result] = await db
       .select()
@@ -174,173 +655,1594 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
+  // Lead interests are free text: either course ids or course names
+  async resolveCourseReferences(references: string[]): Promise<number[]> {
+    const ids = references.filter((ref) => /^\d+$/.test(ref.trim())).map((ref) => parseInt(ref));
+    const names = references
+      .filter((ref) => !/^\d+$/.test(ref.trim()))
+      .map((ref) => ref.trim().toLowerCase())
+      .filter(Boolean);
+
+    const conditions: SQL[] = [];
+    if (ids.length > 0) {
+      conditions.push(inArray(courses.id, ids));
+    }
+    if (names.length > 0) {
+      conditions.push(inArray(sql`lower(${courses.name})`, names));
+    }
+    if (conditions.length === 0) return [];
+
+    const result = await db
+      .select({ id: courses.id })
+      .from(courses)
+      .where(or(...conditions));
+    return result.map((row) => row.id);
+  }
+
+  // Ids that don't name an active course
+  async findMissingCourseIds(ids: number[]): Promise<number[]> {
+    if (ids.length === 0) return [];
+    const found = await db
+      .select({ id: courses.id })
+      .from(courses)
+      .where(and(inArray(courses.id, ids), eq(courses.isActive, true)));
+    const foundIds = new Set(found.map((row) => row.id));
+    return ids.filter((id) => !foundIds.has(id));
+  }
+
   async createCourse(course: InsertCourse): Promise<Course> {
     const [created] = await db.insert(courses).values(course).returning();
     return created;
   }
 
-  // Counselor operations
-  async getCounselors(): Promise<Counselor[]> {
-    return await db.select().from(counselors).where(eq(counselors.isActive, true));
+  async updateCourse(id: number, updates: Partial<InsertCourse>): Promise<Course | undefined> {
+    const [updated] = await db.update(courses).set(updates).where(eq(courses.id, id)).returning();
+    return updated;
   }
 
-  async createCounselor(counselor: InsertCounselor): Promise<Counselor> {
-    const [created] = await db.insert(counselors).values(counselor).returning();
-    return created;
+  async getCourseByExternalCode(code: string): Promise<Course | undefined> {
+    const [course] = await db.select().from(courses).where(eq(courses.externalCode, code));
+    return course;
   }
 
-  // Favorites operations
-  async getUserFavorites(userId: string): Promise<FavoriteWithCourse[]> {
-    const favoriteList = await db
-      .select()
-      .from(favorites)
-      .where(eq(favorites.userId, userId));
-
-    const result = [];
-    for (const favorite of favoriteList) {
-      const courseWithUniversity = await this.getCourseById(favorite.courseId);
-      if (courseWithUniversity) {
-        result.push({
-          ...favorite,
-          course: courseWithUniversity,
-        });
+  // Rows created before external codes existed get one derived from their id, so exports round-trip
+  async assignMissingExternalCodes(): Promise<void> {
+    await db
+      .update(universities)
+      .set({ externalCode: sql`'UNI-' || ${universities.id}` })
+      .where(sql`${universities.externalCode} is null`);
+    await db
+      .update(courses)
+      .set({ externalCode: sql`'CRS-' || ${courses.id}` })
+      .where(sql`${courses.externalCode} is null`);
+  }
+
+  // All-or-nothing, so a failure partway through never leaves half a catalogue; returns the course ids in order
+  async applyCatalogueImport(writes: CatalogueWrite[]): Promise<number[]> {
+    return await db.transaction(async (tx) => {
+      const createdUniversities = new Map<string, number>();
+      const courseIds: number[] = [];
+
+      for (const write of writes) {
+        let universityId = write.universityId ?? createdUniversities.get(write.universityCode) ?? null;
+        if (universityId === null) {
+          const [created] = await tx.insert(universities).values(write.university!).returning({ id: universities.id });
+          universityId = created.id;
+          createdUniversities.set(write.universityCode, universityId);
+        } else if (write.university) {
+          await tx.update(universities).set(write.university).where(eq(universities.id, universityId));
+        }
+
+        const course = { ...write.course, universityId };
+        const [saved] = write.courseId
+          ? await tx.update(courses).set(course).where(eq(courses.id, write.courseId)).returning({ id: courses.id })
+          : await tx.insert(courses).values(course).returning({ id: courses.id });
+        courseIds.push(saved.id);
       }
+      return courseIds;
+    });
+  }
+
+  // Scholarship operations
+  async searchScholarships(params: Partial<ScholarshipSearchParams>): Promise<ScholarshipWithInstitution[]> {
+    const conditions: SQL[] = [
+      eq(scholarships.isActive, true),
+      eq(universities.isActive, true),
+      // Course-specific awards disappear with their course
+      or(isNull(scholarships.courseId), eq(courses.isActive, true))!,
+    ];
+
+    if (!params.includeExpired) {
+      conditions.push(or(isNull(scholarships.deadline), sql`${scholarships.deadline} >= current_date`)!);
+    }
+    if (params.universityId !== undefined) {
+      conditions.push(eq(scholarships.universityId, params.universityId));
+    }
+    if (params.courseId !== undefined) {
+      // University-wide awards apply to every course at that university
+      conditions.push(or(
+        eq(scholarships.courseId, params.courseId),
+        and(
+          isNull(scholarships.courseId),
+          sql`${scholarships.universityId} = (select ${courses.universityId} from ${courses} where ${courses.id} = ${params.courseId})`,
+        ),
+      )!);
+    }
+    if (params.level) {
+      conditions.push(sql`(coalesce(cardinality(${scholarships.levels}), 0) = 0 and (${courses.level} is null or ${courses.level} = ${params.level})
+        or ${params.level} = any(${scholarships.levels}))`);
+    }
+    if (params.nationality) {
+      conditions.push(sql`(coalesce(cardinality(${scholarships.nationalities}), 0) = 0 or ${params.nationality} = any(${scholarships.nationalities}))`);
+    }
+    if (params.q) {
+      const pattern = `%${params.q}%`;
+      conditions.push(or(
+        ilike(scholarships.name, pattern),
+        ilike(scholarships.description, pattern),
+        ilike(universities.name, pattern),
+        ilike(courses.name, pattern),
+      )!);
     }
 
-    return result;
+    const rows = await db
+      .select({
+        scholarship: scholarships,
+        university: { id: universities.id, name: universities.name },
+        course: { id: courses.id, name: courses.name, level: courses.level },
+      })
+      .from(scholarships)
+      .innerJoin(universities, eq(scholarships.universityId, universities.id))
+      .leftJoin(courses, eq(scholarships.courseId, courses.id))
+      .where(and(...conditions))
+      .orderBy(sql`${scholarships.deadline} asc nulls last`, asc(scholarships.name));
+
+    return rows.map((row) => ({ ...row.scholarship, university: row.university, course: row.course }));
   }
 
-  async addToFavorites(userId: string, courseId: number): Promise<Favorite> {
-    const [created] = await db
-      .insert(favorites)
-      .values({ userId, courseId })
+  async getScholarshipById(id: number): Promise<Scholarship | undefined> {
+    const [scholarship] = await db.select().from(scholarships).where(eq(scholarships.id, id));
+    return scholarship;
+  }
+
+  async createScholarship(scholarship: InsertScholarship): Promise<Scholarship> {
+    const [created] = await db.insert(scholarships).values(scholarship).returning();
+    return created;
+  }
+
+  async updateScholarship(id: number, updates: Partial<InsertScholarship>): Promise<Scholarship | undefined> {
+    const [updated] = await db
+      .update(scholarships)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(scholarships.id, id))
       .returning();
+    return updated;
+  }
+
+  // Course intake operations
+  async getCourseIntakes(courseIds: number[], options?: { openOnly?: boolean }): Promise<CourseIntake[]> {
+    if (courseIds.length === 0) return [];
+    return await db
+      .select()
+      .from(courseIntakes)
+      .where(and(inArray(courseIntakes.courseId, courseIds), options?.openOnly ? openIntake : undefined))
+      .orderBy(asc(courseIntakes.startMonth));
+  }
+
+  async getCourseIntakeById(id: number): Promise<CourseIntake | undefined> {
+    const [intake] = await db.select().from(courseIntakes).where(eq(courseIntakes.id, id));
+    return intake;
+  }
+
+  async createCourseIntake(courseId: number, intake: InsertCourseIntake): Promise<CourseIntake> {
+    const [created] = await db.insert(courseIntakes).values({ ...intake, courseId }).returning();
     return created;
   }
 
-  async removeFromFavorites(userId: string, courseId: number): Promise<void> {
-    await db
-      .delete(favorites)
-      .where(and(eq(favorites.userId, userId), eq(favorites.courseId, courseId)));
+  async updateCourseIntake(id: number, updates: Partial<InsertCourseIntake>): Promise<CourseIntake | undefined> {
+    return await db.transaction(async (tx) => {
+      // A moved deadline deserves a fresh reminder
+      const reset = updates.applicationDeadline ? { reminderSentAt: null } : {};
+      const [updated] = await tx
+        .update(courseIntakes)
+        .set({ ...updates, ...reset, updatedAt: new Date() })
+        .where(eq(courseIntakes.id, id))
+        .returning();
+      if (updated && updates.applicationDeadline) {
+        await tx.delete(deadlineReminders).where(eq(deadlineReminders.intakeId, id));
+      }
+      return updated;
+    });
   }
 
-  async isFavorite(userId: string, courseId: number): Promise<boolean> {
-    const result = await db
-      .select({ id: favorites.id })
+  async deleteCourseIntake(id: number): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(deadlineReminders).where(eq(deadlineReminders.intakeId, id));
+      const deleted = await tx.delete(courseIntakes).where(eq(courseIntakes.id, id)).returning({ id: courseIntakes.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Marks open intakes with a deadline between today and `deadlineBy` as reminded and returns them,
+  // so concurrent runs never notify the same intake twice
+  async claimDeadlineReminders(deadlineBy: string): Promise<CourseIntake[]> {
+    return await db
+      .update(courseIntakes)
+      .set({ reminderSentAt: new Date() })
+      .where(and(
+        openIntake,
+        isNull(courseIntakes.reminderSentAt),
+        lte(courseIntakes.applicationDeadline, deadlineBy),
+      ))
+      .returning();
+  }
+
+  // Gives a claimed intake back to the next run when some of its reminders could not be sent;
+  // students recorded in deadlineReminders are skipped on the retry
+  async releaseDeadlineReminder(intakeId: number): Promise<void> {
+    await db.update(courseIntakes).set({ reminderSentAt: null }).where(eq(courseIntakes.id, intakeId));
+  }
+
+  // Students who favorited the intake's course and haven't been reminded about this intake yet
+  async getUnremindedUserIds(intake: CourseIntake): Promise<string[]> {
+    const rows = await db
+      .select({ userId: favorites.userId })
       .from(favorites)
-      .where(and(eq(favorites.userId, userId), eq(favorites.courseId, courseId)))
-      .limit(1);
-    
-    return result.length > 0;
+      .leftJoin(deadlineReminders, and(
+        eq(deadlineReminders.intakeId, intake.id),
+        eq(deadlineReminders.userId, favorites.userId),
+      ))
+      .where(and(eq(favorites.courseId, intake.courseId), isNull(deadlineReminders.id)));
+    return rows.map((row) => row.userId);
   }
 
-  // Application operations
-  async createApplication(application: InsertApplication): Promise<Application> {
-    const [created] = await db.insert(applications).values(application).returning();
-    return created;
+  async recordDeadlineReminder(intakeId: number, userId: string): Promise<void> {
+    await db.insert(deadlineReminders).values({ intakeId, userId }).onConflictDoNothing();
   }
 
-  async getUserApplications(userId: string): Promise<any[]> {
-    const result = await db
-      .select()
+  // Applications naming the course, either as a choice or in the legacy selectedCourses array
+  async countCourseApplications(courseId: number): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(distinct ${applications.id})::int` })
       .from(applications)
-      .where(eq(applications.userId, userId))
-      .orderBy(desc(applications.createdAt));
+      .leftJoin(applicationChoices, eq(applicationChoices.applicationId, applications.id))
+      .where(or(
+        eq(applicationChoices.courseId, courseId),
+        sql`${courseId} = any(${applications.selectedCourses})`,
+      ));
+    return count;
+  }
 
-    // Fetch course details for each application
-    const applicationsWithCourses = await Promise.all(
-      result.map(async (app) => {
-        if (app.selectedCourses && app.selectedCourses.length > 0) {
-          const courseDetails = await db
-            .select({
-              id: courses.id,
-              name: courses.name,
-              universityName: universities.name,
-            })
-            .from(courses)
-            .leftJoin(universities, eq(courses.universityId, universities.id))
-            .where(inArray(courses.id, app.selectedCourses));
-
-          return {
-            ...app,
-            courseDetails,
-          };
-        }
+  // Rewrites legacy currency symbols ("£") to ISO codes; returns the number of courses changed
+  async normalizeCourseCurrencies(): Promise<number> {
+    let changed = 0;
+    for (const symbol of Object.keys(CURRENCY_SYMBOLS)) {
+      const updated = await db
+        .update(courses)
+        .set({ currency: CURRENCY_SYMBOLS[symbol] })
+        .where(eq(courses.currency, symbol))
+        .returning({ id: courses.id });
+      changed += updated.length;
+    }
+    return changed;
+  }
 
-        return {
-          ...app,
-          courseDetails: [],
-        };
-      })
-    );
+  // Exchange rate operations
+  async getLatestExchangeRates(): Promise<ExchangeRate[]> {
+    return await db
+      .selectDistinctOn([exchangeRates.currency])
+      .from(exchangeRates)
+      .orderBy(exchangeRates.currency, desc(exchangeRates.rateDate));
+  }
 
-    return applicationsWithCourses;
+  async getExchangeRates(currency?: string): Promise<ExchangeRate[]> {
+    return await db
+      .select()
+      .from(exchangeRates)
+      .where(currency ? eq(exchangeRates.currency, currency) : undefined)
+      .orderBy(desc(exchangeRates.rateDate), asc(exchangeRates.currency));
   }
 
-  async updateApplicationStatus(id: number, status: string): Promise<Application> {
-    const [updated] = await db
-      .update(applications)
-      .set({ status, updatedAt: new Date() })
-      .where(eq(applications.id, id))
+  async upsertExchangeRates(rates: InsertExchangeRate[], updatedBy: string): Promise<ExchangeRate[]> {
+    if (rates.length === 0) return [];
+    return await db
+      .insert(exchangeRates)
+      .values(rates.map((rate) => ({ ...rate, updatedBy, updatedAt: new Date() })))
+      .onConflictDoUpdate({
+        target: [exchangeRates.currency, exchangeRates.rateDate],
+        set: {
+          ratePerGbp: sql`excluded.rate_per_gbp`,
+          updatedBy,
+          updatedAt: new Date(),
+        },
+      })
       .returning();
-    return updated;
   }
 
-  // Notification operations
-  async getUserNotifications(userId: string): Promise<Notification[]> {
+  // English test requirement operations
+  async getCourseEnglishRequirements(courseId?: number): Promise<CourseEnglishRequirement[]> {
     return await db
       .select()
-      .from(notifications)
-      .where(eq(notifications.userId, userId))
-      .orderBy(desc(notifications.createdAt));
+      .from(courseEnglishRequirements)
+      .where(courseId === undefined ? undefined : eq(courseEnglishRequirements.courseId, courseId));
   }
 
-  async createNotification(notification: InsertNotification): Promise<Notification> {
-    console.log(`🔔 Creating notification in database:`, notification);
-    const [created] = await db.insert(notifications).values(notification).returning();
-    console.log(`✅ Notification created successfully:`, created);
+  async replaceCourseEnglishRequirements(
+    courseId: number,
+    requirements: InsertCourseEnglishRequirement[],
+  ): Promise<CourseEnglishRequirement[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(courseEnglishRequirements).where(eq(courseEnglishRequirements.courseId, courseId));
+      if (requirements.length === 0) return [];
+      return await tx
+        .insert(courseEnglishRequirements)
+        .values(requirements.map((requirement) => ({ ...requirement, courseId })))
+        .returning();
+    });
+  }
+
+  async getEnglishTestEquivalences(testType?: EnglishTest): Promise<EnglishTestEquivalence[]> {
+    return await db
+      .select()
+      .from(englishTestEquivalences)
+      .where(testType ? eq(englishTestEquivalences.testType, testType) : undefined)
+      .orderBy(asc(englishTestEquivalences.testType), asc(englishTestEquivalences.component), asc(englishTestEquivalences.ieltsBand));
+  }
+
+  async replaceEnglishTestEquivalences(
+    testType: EnglishTest,
+    rows: EnglishTestEquivalenceRow[],
+    updatedBy: string,
+  ): Promise<EnglishTestEquivalence[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(englishTestEquivalences).where(eq(englishTestEquivalences.testType, testType));
+      if (rows.length === 0) return [];
+      return await tx
+        .insert(englishTestEquivalences)
+        .values(rows.map((row) => ({
+          testType,
+          component: row.component,
+          ieltsBand: row.ieltsBand.toString(),
+          minScore: row.minScore.toString(),
+          updatedBy,
+          updatedAt: new Date(),
+        })))
+        .returning();
+    });
+  }
+
+  // Counselor operations
+  async getCounselors(options?: { includeInactive?: boolean }): Promise<Counselor[]> {
+    return await db
+      .select()
+      .from(counselors)
+      .where(options?.includeInactive ? undefined : eq(counselors.isActive, true));
+  }
+
+  async getCounselorById(id: number): Promise<Counselor | undefined> {
+    const [counselor] = await db.select().from(counselors).where(eq(counselors.id, id));
+    return counselor;
+  }
+
+  async getCounselorByUserId(userId: string): Promise<Counselor | undefined> {
+    const [counselor] = await db.select().from(counselors).where(eq(counselors.userId, userId));
+    return counselor;
+  }
+
+  async linkCounselorAccount(id: number, userId: string | null): Promise<Counselor | undefined> {
+    const [updated] = await db.update(counselors).set({ userId }).where(eq(counselors.id, id)).returning();
+    return updated;
+  }
+
+  async createCounselor(counselor: InsertCounselor): Promise<Counselor> {
+    const [created] = await db.insert(counselors).values(counselor).returning();
     return created;
   }
 
-  async markNotificationAsRead(id: number): Promise<void> {
-    await db
-      .update(notifications)
-      .set({ isRead: true })
-      .where(eq(notifications.id, id));
+  async updateCounselor(id: number, updates: Partial<InsertCounselor>): Promise<Counselor | undefined> {
+    const [updated] = await db.update(counselors).set(updates).where(eq(counselors.id, id)).returning();
+    return updated;
   }
 
-  async getUnreadNotificationCount(userId: string): Promise<number> {
-    const result = await db
+  // Counselors with their average rating and current caseload
+  async getCounselorProfiles(options?: { includeInactive?: boolean }): Promise<CounselorProfile[]> {
+    const ratings = db
+      .select({
+        counselorId: counselorRatings.counselorId,
+        average: sql<number | null>`avg(${counselorRatings.rating})::float`.as("average_rating"),
+        count: sql<number>`count(*)::int`.as("rating_count"),
+      })
+      .from(counselorRatings)
+      .groupBy(counselorRatings.counselorId)
+      .as("ratings");
+    const leadLoad = db
+      .select({
+        assignedTo: leads.assignedTo,
+        openLeads: sql<number>`count(*)::int`.as("open_leads"),
+      })
+      .from(leads)
+      .where(and(eq(leads.isArchived, false), sql`${leads.status} not in ('converted', 'closed')`))
+      .groupBy(leads.assignedTo)
+      .as("lead_load");
+    const applicationLoad = db
+      .select({
+        assignedTo: applications.assignedTo,
+        activeApplications: sql<number>`count(*)::int`.as("active_applications"),
+      })
+      .from(applications)
+      .where(notInArray(applications.status, CLOSED_APPLICATION_STATUSES))
+      .groupBy(applications.assignedTo)
+      .as("application_load");
+    const appointmentLoad = db
+      .select({
+        counselorId: appointments.counselorId,
+        upcomingAppointments: sql<number>`count(*)::int`.as("upcoming_appointments"),
+      })
+      .from(appointments)
+      .where(and(eq(appointments.status, "booked"), sql`${appointments.startsAt} >= now()`))
+      .groupBy(appointments.counselorId)
+      .as("appointment_load");
+
+    const rows = await db
+      .select({
+        counselor: counselors,
+        average: ratings.average,
+        count: ratings.count,
+        openLeads: leadLoad.openLeads,
+        activeApplications: applicationLoad.activeApplications,
+        upcomingAppointments: appointmentLoad.upcomingAppointments,
+      })
+      .from(counselors)
+      .leftJoin(ratings, eq(ratings.counselorId, counselors.id))
+      .leftJoin(leadLoad, eq(leadLoad.assignedTo, counselors.userId))
+      .leftJoin(applicationLoad, eq(applicationLoad.assignedTo, counselors.userId))
+      .leftJoin(appointmentLoad, eq(appointmentLoad.counselorId, counselors.id))
+      .where(options?.includeInactive ? undefined : eq(counselors.isActive, true))
+      .orderBy(asc(counselors.name));
+
+    return rows.map((row) => ({
+      ...row.counselor,
+      rating: { average: row.average ?? null, count: row.count ?? 0 },
+      workload: {
+        openLeads: row.openLeads ?? 0,
+        activeApplications: row.activeApplications ?? 0,
+        upcomingAppointments: row.upcomingAppointments ?? 0,
+      },
+    }));
+  }
+
+  // Students who have met the counselor or had an application handled by them
+  async hasCounselorServedStudent(counselor: Counselor, userId: string): Promise<boolean> {
+    const [appointment] = await db
+      .select({ id: appointments.id })
+      .from(appointments)
+      .where(and(
+        eq(appointments.counselorId, counselor.id),
+        eq(appointments.userId, userId),
+        sql`${appointments.status} in ('booked', 'completed')`,
+        sql`${appointments.startsAt} < now()`,
+      ))
+      .limit(1);
+    if (appointment) return true;
+    if (!counselor.userId) return false;
+
+    const [application] = await db
+      .select({ id: applications.id })
+      .from(applications)
+      .where(and(eq(applications.userId, userId), eq(applications.assignedTo, counselor.userId)))
+      .limit(1);
+    return !!application;
+  }
+
+  async upsertCounselorRating(
+    counselorId: number,
+    userId: string,
+    rating: { rating: number; comment?: string },
+  ): Promise<CounselorRating> {
+    const [saved] = await db
+      .insert(counselorRatings)
+      .values({ counselorId, userId, ...rating })
+      .onConflictDoUpdate({
+        target: [counselorRatings.counselorId, counselorRatings.userId],
+        set: { rating: rating.rating, comment: rating.comment ?? null, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Leads still being worked by the counselor's login account
+  async countOpenLeadsForCounselor(counselor: Counselor): Promise<number> {
+    if (!counselor.userId) return 0;
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(leads)
+      .where(and(
+        eq(leads.assignedTo, counselor.userId),
+        eq(leads.isArchived, false),
+        sql`${leads.status} not in ('converted', 'closed')`,
+      ));
+    return count;
+  }
+
+  // Appointment operations
+  async getCounselorAvailability(counselorId: number): Promise<CounselorAvailability[]> {
+    return await db
       .select()
-      .from(notifications)
-      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)));
-    return result.length;
+      .from(counselorAvailability)
+      .where(eq(counselorAvailability.counselorId, counselorId))
+      .orderBy(asc(counselorAvailability.weekday), asc(counselorAvailability.startTime));
   }
 
-  // Tutorial operations
-  async getTutorials(): Promise<Tutorial[]> {
+  async replaceCounselorAvailability(
+    counselorId: number,
+    windows: CounselorAvailabilityWindow[],
+  ): Promise<CounselorAvailability[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(counselorAvailability).where(eq(counselorAvailability.counselorId, counselorId));
+      if (windows.length === 0) return [];
+      return await tx
+        .insert(counselorAvailability)
+        .values(windows.map((window) => ({ ...window, counselorId })))
+        .returning();
+    });
+  }
+
+  async getCounselorTimeOff(counselorId: number, from?: Date): Promise<CounselorTimeOff[]> {
     return await db
       .select()
-      .from(tutorials)
-      .where(eq(tutorials.isActive, true))
-      .orderBy(desc(tutorials.createdAt));
+      .from(counselorTimeOff)
+      .where(and(
+        eq(counselorTimeOff.counselorId, counselorId),
+        from ? gte(counselorTimeOff.endsAt, from) : undefined,
+      ))
+      .orderBy(asc(counselorTimeOff.startsAt));
   }
 
-  async createTutorial(tutorial: InsertTutorial): Promise<Tutorial> {
-    const [created] = await db.insert(tutorials).values(tutorial).returning();
+  async createCounselorTimeOff(counselorId: number, timeOff: InsertCounselorTimeOff): Promise<CounselorTimeOff> {
+    const [created] = await db.insert(counselorTimeOff).values({ ...timeOff, counselorId }).returning();
     return created;
   }
 
-  // Admin operations
+  async deleteCounselorTimeOff(counselorId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(counselorTimeOff)
+      .where(and(eq(counselorTimeOff.id, id), eq(counselorTimeOff.counselorId, counselorId)))
+      .returning({ id: counselorTimeOff.id });
+    return deleted.length > 0;
+  }
 
+  async getAppointments(filters: {
+    userId?: string;
+    counselorId?: number;
+    from?: Date;
+    status?: string;
+  }): Promise<AppointmentWithParties[]> {
+    const rows = await db
+      .select({
+        appointment: appointments,
+        counselor: { id: counselors.id, name: counselors.name, userId: counselors.userId, timezone: counselors.timezone },
+        student: { id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email },
+      })
+      .from(appointments)
+      .innerJoin(counselors, eq(appointments.counselorId, counselors.id))
+      .innerJoin(users, eq(appointments.userId, users.id))
+      .where(and(
+        filters.userId ? eq(appointments.userId, filters.userId) : undefined,
+        filters.counselorId !== undefined ? eq(appointments.counselorId, filters.counselorId) : undefined,
+        filters.from ? gte(appointments.endsAt, filters.from) : undefined,
+        filters.status ? eq(appointments.status, filters.status) : undefined,
+      ))
+      .orderBy(asc(appointments.startsAt));
+    return rows.map((row) => ({ ...row.appointment, counselor: row.counselor, student: row.student }));
+  }
 
-  async getUsers(): Promise<User[]> {
-    return await db.select().from(users).orderBy(desc(users.createdAt));
+  async getAppointmentById(id: number): Promise<AppointmentWithParties | undefined> {
+    const [row] = await db
+      .select({
+        appointment: appointments,
+        counselor: { id: counselors.id, name: counselors.name, userId: counselors.userId, timezone: counselors.timezone },
+        student: { id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email },
+      })
+      .from(appointments)
+      .innerJoin(counselors, eq(appointments.counselorId, counselors.id))
+      .innerJoin(users, eq(appointments.userId, users.id))
+      .where(eq(appointments.id, id));
+    return row ? { ...row.appointment, counselor: row.counselor, student: row.student } : undefined;
   }
 
-  async getAllApplications(): Promise<Application[]> {
-    return await db.select().from(applications).orderBy(desc(applications.createdAt));
+  async bookAppointment(appointment: {
+    counselorId: number;
+    userId: string;
+    startsAt: Date;
+    endsAt: Date;
+    studentTimezone: string;
+    notes?: string;
+  }): Promise<Appointment | undefined> {
+    return await withSlotLock(appointment.counselorId, async (tx) => {
+      if (await hasClash(tx, appointment.counselorId, appointment.startsAt, appointment.endsAt)) {
+        return undefined;
+      }
+      const [created] = await tx.insert(appointments).values(appointment).returning();
+      return created;
+    });
   }
+
+  async rescheduleAppointment(id: number, startsAt: Date, endsAt: Date): Promise<Appointment | undefined> {
+    const [current] = await db.select().from(appointments).where(eq(appointments.id, id));
+    if (!current || current.status !== "booked") return undefined;
+
+    return await withSlotLock(current.counselorId, async (tx) => {
+      if (await hasClash(tx, current.counselorId, startsAt, endsAt, id)) {
+        return undefined;
+      }
+      const [updated] = await tx
+        .update(appointments)
+        .set({ startsAt, endsAt, updatedAt: new Date() })
+        .where(and(eq(appointments.id, id), eq(appointments.status, "booked")))
+        .returning();
+      return updated;
+    });
+  }
+
+  async cancelAppointment(id: number, cancelledBy: string, reason?: string): Promise<Appointment | undefined> {
+    const [cancelled] = await db
+      .update(appointments)
+      .set({ status: "cancelled", cancelledBy, cancellationReason: reason, updatedAt: new Date() })
+      .where(and(eq(appointments.id, id), eq(appointments.status, "booked")))
+      .returning();
+    return cancelled;
+  }
+
+  // Favorites operations
+  async getUserFavorites(userId: string): Promise<FavoriteWithCourse[]> {
+    const result = await db
+      .select()
+      .from(favorites)
+      .innerJoin(courses, eq(favorites.courseId, courses.id))
+      .innerJoin(universities, eq(courses.universityId, universities.id))
+      .where(eq(favorites.userId, userId))
+      .orderBy(desc(favorites.createdAt));
+
+    return result.map((row) => ({
+      ...row.favorites,
+      course: { ...row.courses, university: row.universities },
+    }));
+  }
+
+  // Favoriting twice is a no-op that returns the existing row
+  async addToFavorites(userId: string, courseId: number): Promise<Favorite> {
+    const [created] = await db
+      .insert(favorites)
+      .values({ userId, courseId })
+      .onConflictDoNothing({ target: [favorites.userId, favorites.courseId] })
+      .returning();
+    if (created) return created;
+
+    const [existing] = await db
+      .select()
+      .from(favorites)
+      .where(and(eq(favorites.userId, userId), eq(favorites.courseId, courseId)));
+    return existing;
+  }
+
+  async removeFromFavorites(userId: string, courseId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(favorites)
+      .where(and(eq(favorites.userId, userId), eq(favorites.courseId, courseId)))
+      .returning({ id: favorites.id });
+    return deleted.length > 0;
+  }
+
+  async isFavorite(userId: string, courseId: number): Promise<boolean> {
+    const result = await db
+      .select({ id: favorites.id })
+      .from(favorites)
+      .where(and(eq(favorites.userId, userId), eq(favorites.courseId, courseId)))
+      .limit(1);
+    
+    return result.length > 0;
+  }
+
+  // Application operations
+  async createApplication(application: InsertApplication): Promise<Application> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(applications).values(application).returning();
+
+      const courseIds = Array.from(new Set(created.selectedCourses));
+      if (courseIds.length > 0) {
+        await tx
+          .insert(applicationChoices)
+          .values(courseIds.map((courseId) => ({ applicationId: created.id, courseId })));
+      }
+
+      await tx.insert(applicationStatusHistory).values({
+        applicationId: created.id,
+        fromStatus: null,
+        toStatus: created.status ?? "Submitted",
+        changedBy: created.userId,
+      });
+
+      return created;
+    });
+  }
+
+  async getUserApplications(userId: string): Promise<ApplicationWithChoices[]> {
+    const result = await db
+      .select()
+      .from(applications)
+      .where(eq(applications.userId, userId))
+      .orderBy(desc(applications.createdAt));
+    if (result.length === 0) return [];
+
+    const choiceRows = await db
+      .select()
+      .from(applicationChoices)
+      .innerJoin(courses, eq(applicationChoices.courseId, courses.id))
+      .innerJoin(universities, eq(courses.universityId, universities.id))
+      .where(inArray(applicationChoices.applicationId, result.map((app) => app.id)))
+      .orderBy(asc(applicationChoices.id));
+
+    const choicesByApplication = new Map<number, ApplicationChoiceWithCourse[]>();
+    for (const row of choiceRows) {
+      const choices = choicesByApplication.get(row.application_choices.applicationId) ?? [];
+      choices.push({
+        ...row.application_choices,
+        course: { ...row.courses, university: row.universities },
+      });
+      choicesByApplication.set(row.application_choices.applicationId, choices);
+    }
+
+    // Applications created before per-course choices only have selectedCourses
+    const legacyCourseIds = result
+      .filter((app) => !choicesByApplication.has(app.id))
+      .flatMap((app) => app.selectedCourses ?? []);
+    const legacyCourses = legacyCourseIds.length > 0
+      ? await db
+          .select({ id: courses.id, name: courses.name, universityName: universities.name })
+          .from(courses)
+          .leftJoin(universities, eq(courses.universityId, universities.id))
+          .where(inArray(courses.id, legacyCourseIds))
+      : [];
+
+    return result.map((app) => {
+      const choices = choicesByApplication.get(app.id) ?? [];
+      return {
+        ...app,
+        choices,
+        courseDetails: choices.length > 0
+          ? choices.map((choice) => ({
+              id: choice.course.id,
+              name: choice.course.name,
+              universityName: choice.course.university.name,
+            }))
+          : legacyCourses.filter((course) => app.selectedCourses?.includes(course.id)),
+      };
+    });
+  }
+
+  async getApplicationChoices(applicationId: number): Promise<ApplicationChoiceWithCourse[]> {
+    const result = await db
+      .select()
+      .from(applicationChoices)
+      .innerJoin(courses, eq(applicationChoices.courseId, courses.id))
+      .innerJoin(universities, eq(courses.universityId, universities.id))
+      .where(eq(applicationChoices.applicationId, applicationId))
+      .orderBy(asc(applicationChoices.id));
+
+    return result.map((row) => ({
+      ...row.application_choices,
+      course: { ...row.courses, university: row.universities },
+    }));
+  }
+
+  async updateApplicationChoice(
+    applicationId: number,
+    choiceId: number,
+    updates: Partial<Pick<InsertApplicationChoice, "status" | "offerType" | "offerConditions" | "decisionDate">>,
+  ): Promise<ApplicationChoice | undefined> {
+    const [updated] = await db
+      .update(applicationChoices)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(applicationChoices.id, choiceId), eq(applicationChoices.applicationId, applicationId)))
+      .returning();
+    return updated;
+  }
+
+  // With expectedStatus the update only applies if nobody moved the application in the meantime
+  async updateApplicationStatus(
+    id: number,
+    status: string,
+    change?: { expectedStatus?: string | null; changedBy?: string; reason?: string },
+  ): Promise<Application | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select({ status: applications.status })
+        .from(applications)
+        .where(eq(applications.id, id))
+        .for("update");
+      if (!current) return undefined;
+      if (change?.expectedStatus !== undefined && current.status !== change.expectedStatus) {
+        return undefined;
+      }
+
+      const [updated] = await tx
+        .update(applications)
+        .set({ status, updatedAt: new Date() })
+        .where(eq(applications.id, id))
+        .returning();
+
+      await tx.insert(applicationStatusHistory).values({
+        applicationId: id,
+        fromStatus: current.status,
+        toStatus: status,
+        changedBy: change?.changedBy,
+        reason: change?.reason,
+      });
+
+      return updated;
+    });
+  }
+
+  async getApplicationStatusHistory(applicationId: number): Promise<ApplicationStatusHistory[]> {
+    return await db
+      .select()
+      .from(applicationStatusHistory)
+      .where(eq(applicationStatusHistory.applicationId, applicationId))
+      .orderBy(asc(applicationStatusHistory.createdAt), asc(applicationStatusHistory.id));
+  }
+
+  // Application document operations
+  async getApplicationDocuments(applicationId: number): Promise<ApplicationDocument[]> {
+    return await db
+      .select()
+      .from(applicationDocuments)
+      .where(eq(applicationDocuments.applicationId, applicationId))
+      .orderBy(asc(applicationDocuments.createdAt));
+  }
+
+  async getApplicationDocument(applicationId: number, documentId: number): Promise<ApplicationDocument | undefined> {
+    const [document] = await db
+      .select()
+      .from(applicationDocuments)
+      .where(and(eq(applicationDocuments.id, documentId), eq(applicationDocuments.applicationId, applicationId)));
+    return document;
+  }
+
+  async createApplicationDocument(document: InsertApplicationDocument): Promise<ApplicationDocument> {
+    const [created] = await db.insert(applicationDocuments).values(document).returning();
+    return created;
+  }
+
+  async reviewApplicationDocument(
+    documentId: number,
+    review: { reviewStatus: string; reviewComment?: string | null; reviewedBy: string },
+  ): Promise<ApplicationDocument | undefined> {
+    const [reviewed] = await db
+      .update(applicationDocuments)
+      .set({ ...review, reviewedAt: new Date() })
+      .where(eq(applicationDocuments.id, documentId))
+      .returning();
+    return reviewed;
+  }
+
+  async deleteApplicationDocument(documentId: number): Promise<void> {
+    await db.delete(applicationDocuments).where(eq(applicationDocuments.id, documentId));
+  }
+
+  // History of every application that entered the pipeline since the given date
+  async getStatusHistorySince(since: Date): Promise<ApplicationStatusHistory[]> {
+    const recentApplications = db
+      .select({ id: applicationStatusHistory.applicationId })
+      .from(applicationStatusHistory)
+      .where(gte(applicationStatusHistory.createdAt, since));
+
+    return await db
+      .select()
+      .from(applicationStatusHistory)
+      .where(inArray(applicationStatusHistory.applicationId, recentApplications))
+      .orderBy(
+        asc(applicationStatusHistory.applicationId),
+        asc(applicationStatusHistory.createdAt),
+        asc(applicationStatusHistory.id),
+      );
+  }
+
+  // Notification operations
+  async getUserNotifications(userId: string): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt));
+  }
+
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    console.log(`🔔 Creating notification in database:`, notification);
+    const created = await db.transaction(async (tx) => {
+      const [inserted] = await tx.insert(notifications).values(notification).returning();
+      await queueNotificationEmail(tx, inserted);
+      return inserted;
+    });
+    console.log(`✅ Notification created successfully:`, created);
+    return created;
+  }
+
+  async markNotificationAsRead(id: number): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ isRead: true })
+      .where(eq(notifications.id, id));
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    const result = await db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)));
+    return result.length;
+  }
+
+  // Tutorial operations
+  async getTutorials(options?: { includeInactive?: boolean }): Promise<Tutorial[]> {
+    return await db
+      .select()
+      .from(tutorials)
+      .where(options?.includeInactive ? undefined : eq(tutorials.isActive, true))
+      .orderBy(desc(tutorials.createdAt));
+  }
+
+  async getTutorialById(id: number): Promise<Tutorial | undefined> {
+    const [tutorial] = await db.select().from(tutorials).where(eq(tutorials.id, id));
+    return tutorial;
+  }
+
+  async createTutorial(tutorial: InsertTutorial): Promise<Tutorial> {
+    const [created] = await db.insert(tutorials).values(tutorial).returning();
+    return created;
+  }
+
+  async updateTutorial(id: number, updates: Partial<InsertTutorial>): Promise<Tutorial | undefined> {
+    const [updated] = await db.update(tutorials).set(updates).where(eq(tutorials.id, id)).returning();
+    return updated;
+  }
+
+  // Admin operations
+
+
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(desc(users.createdAt));
+  }
+
+  async getAllApplications(filters?: { assignedTo?: string }): Promise<Application[]> {
+    return await db
+      .select()
+      .from(applications)
+      .where(filters?.assignedTo ? eq(applications.assignedTo, filters.assignedTo) : undefined)
+      .orderBy(desc(applications.createdAt));
+  }
+
+  async getApplicationById(id: number): Promise<Application | undefined> {
+    const [application] = await db.select().from(applications).where(eq(applications.id, id));
+    return application;
+  }
+
+  async assignApplication(id: number, assigneeId: string | null): Promise<Application | undefined> {
+    const [updated] = await db
+      .update(applications)
+      .set({ assignedTo: assigneeId, updatedAt: new Date() })
+      .where(eq(applications.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Admin role operations
+  async getAdminUserByUserId(userId: string): Promise<AdminUser | undefined> {
+    const [adminUser] = await db.select().from(adminUsers).where(eq(adminUsers.userId, userId));
+    return adminUser;
+  }
+
+  async getAdminUsers(): Promise<AdminUserWithUser[]> {
+    const result = await db
+      .select()
+      .from(adminUsers)
+      .innerJoin(users, eq(adminUsers.userId, users.id))
+      .orderBy(desc(adminUsers.createdAt));
+
+    return result.map((row) => ({
+      ...row.admin_users,
+      user: row.users,
+    }));
+  }
+
+  // Keeps users.isAdmin in step so the client's admin-panel check still works
+  async upsertAdminUser(adminUser: InsertAdminUser): Promise<AdminUser> {
+    return await db.transaction(async (tx) => {
+      const [saved] = await tx
+        .insert(adminUsers)
+        .values(adminUser)
+        .onConflictDoUpdate({
+          target: adminUsers.userId,
+          set: {
+            role: adminUser.role,
+            permissions: adminUser.permissions,
+            isActive: adminUser.isActive,
+          },
+        })
+        .returning();
+
+      await tx
+        .update(users)
+        .set({ isAdmin: saved.isActive ?? false, updatedAt: new Date() })
+        .where(eq(users.id, saved.userId));
+
+      return saved;
+    });
+  }
+
+  async deactivateAdminUser(userId: string): Promise<AdminUser | undefined> {
+    return await db.transaction(async (tx) => {
+      const [deactivated] = await tx
+        .update(adminUsers)
+        .set({ isActive: false })
+        .where(eq(adminUsers.userId, userId))
+        .returning();
+
+      await tx
+        .update(users)
+        .set({ isAdmin: false, updatedAt: new Date() })
+        .where(eq(users.id, userId));
+
+      return deactivated;
+    });
+  }
+
+  // Lead (CRM) operations
+  async getLeads(filters?: LeadFilters): Promise<LeadWithActivities[]> {
+    const conditions: SQL[] = [];
+
+    if (!filters?.includeArchived) {
+      conditions.push(eq(leads.isArchived, false));
+    }
+
+    if (filters?.status) {
+      conditions.push(eq(leads.status, filters.status));
+    }
+
+    if (filters?.priority) {
+      conditions.push(eq(leads.priority, filters.priority));
+    }
+
+    if (filters?.source) {
+      conditions.push(eq(leads.source, filters.source));
+    }
+
+    if (filters?.assignedTo) {
+      conditions.push(eq(leads.assignedTo, filters.assignedTo));
+    }
+
+    if (filters?.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(
+        or(
+          ilike(leads.firstName, pattern),
+          ilike(leads.lastName, pattern),
+          sql`concat_ws(' ', ${leads.firstName}, ${leads.lastName}) ilike ${pattern}`,
+          ilike(leads.email, pattern),
+          ilike(leads.phone, pattern),
+        )!,
+      );
+    }
+
+    const result = await db.query.leads.findMany({
+      where: conditions.length > 0 ? and(...conditions) : undefined,
+      with: {
+        activities: { orderBy: [asc(leadActivities.createdAt)] },
+        convertedUser: true,
+        assignedToUser: true,
+      },
+      orderBy: [desc(leads.createdAt)],
+    });
+
+    return result.map(toLeadWithActivities);
+  }
+
+  async getLeadById(id: number): Promise<LeadWithActivities | undefined> {
+    const result = await db.query.leads.findFirst({
+      where: eq(leads.id, id),
+      with: {
+        activities: { orderBy: [asc(leadActivities.createdAt)] },
+        convertedUser: true,
+        assignedToUser: true,
+      },
+    });
+
+    return result ? toLeadWithActivities(result) : undefined;
+  }
+
+  async createLead(lead: InsertLead): Promise<Lead> {
+    const [created] = await db.insert(leads).values(lead).returning();
+    return created;
+  }
+
+  async updateLead(id: number, updates: Partial<InsertLead>): Promise<Lead | undefined> {
+    const [updated] = await db
+      .update(leads)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(leads.id, id))
+      .returning();
+    return updated;
+  }
+
+  async archiveLead(id: number): Promise<Lead | undefined> {
+    const [archived] = await db
+      .update(leads)
+      .set({ isArchived: true, updatedAt: new Date() })
+      .where(eq(leads.id, id))
+      .returning();
+    return archived;
+  }
+
+  async findLeadByContact(email?: string | null, phone?: string | null): Promise<Lead | undefined> {
+    const conditions: SQL[] = [];
+    if (email) {
+      conditions.push(sql`lower(${leads.email}) = ${email.toLowerCase()}`);
+    }
+    if (phone) {
+      conditions.push(eq(leads.phone, phone));
+    }
+    if (conditions.length === 0) return undefined;
+
+    const [lead] = await db
+      .select()
+      .from(leads)
+      .where(and(eq(leads.isArchived, false), or(...conditions)))
+      .orderBy(asc(leads.createdAt))
+      .limit(1);
+    return lead;
+  }
+
+  // Fold a duplicate submission into an existing lead, leaving a note on its timeline
+  async mergeLead(
+    id: number,
+    updates: Partial<InsertLead>,
+    note: { subject: string; content?: string; performedBy?: string },
+  ): Promise<Lead | undefined> {
+    return await db.transaction(async (tx) => {
+      const [merged] = await tx
+        .update(leads)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(leads.id, id))
+        .returning();
+      if (!merged) return undefined;
+
+      await tx.insert(leadActivities).values({
+        leadId: id,
+        type: "note",
+        subject: note.subject,
+        content: note.content,
+        status: "completed",
+        performedBy: note.performedBy,
+      });
+
+      return merged;
+    });
+  }
+
+  // Lead activity operations
+  async getLeadActivities(leadId: number): Promise<LeadActivity[]> {
+    return await db
+      .select()
+      .from(leadActivities)
+      .where(eq(leadActivities.leadId, leadId))
+      .orderBy(asc(sql`coalesce(${leadActivities.scheduledAt}, ${leadActivities.createdAt})`));
+  }
+
+  async getLeadActivity(id: number): Promise<LeadActivity | undefined> {
+    const [activity] = await db.select().from(leadActivities).where(eq(leadActivities.id, id));
+    return activity;
+  }
+
+  async createLeadActivity(activity: InsertLeadActivity): Promise<LeadActivity> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(leadActivities).values(activity).returning();
+
+      // Only interactions that actually happened count as contact
+      if (created.status === "completed") {
+        await tx
+          .update(leads)
+          .set({ lastContactedAt: created.createdAt ?? new Date(), updatedAt: new Date() })
+          .where(eq(leads.id, created.leadId));
+      }
+
+      return created;
+    });
+  }
+
+  async updateLeadActivityStatus(id: number, status: string): Promise<LeadActivity | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(leadActivities)
+        .set({ status })
+        .where(eq(leadActivities.id, id))
+        .returning();
+
+      if (updated && status === "completed") {
+        await tx
+          .update(leads)
+          .set({ lastContactedAt: new Date(), updatedAt: new Date() })
+          .where(eq(leads.id, updated.leadId));
+      }
+
+      return updated;
+    });
+  }
+
+  async getDueFollowUps(userId: string, until: Date): Promise<LeadActivityWithLead[]> {
+    const result = await db
+      .select()
+      .from(leadActivities)
+      .innerJoin(leads, eq(leadActivities.leadId, leads.id))
+      .where(
+        and(
+          eq(leadActivities.status, "scheduled"),
+          lte(leadActivities.scheduledAt, until),
+          eq(leads.isArchived, false),
+          or(eq(leadActivities.performedBy, userId), eq(leads.assignedTo, userId)),
+        ),
+      )
+      .orderBy(asc(leadActivities.scheduledAt));
+
+    return result.map((row) => ({
+      ...row.lead_activities,
+      lead: row.leads,
+    }));
+  }
+
+  // Lead conversion operations
+  async convertLead(
+    leadId: number,
+    conversion: { user: User; accountExisted: boolean; courseIds: number[]; target: "favorites" | "application"; performedBy: string },
+  ): Promise<LeadConversionResult | undefined> {
+    const { user, accountExisted, courseIds, target, performedBy } = conversion;
+
+    // Undefined when the lead was converted in the meantime; the guard makes concurrent conversions lose cleanly
+    return await db.transaction(async (tx) => {
+      const [lead] = await tx
+        .update(leads)
+        .set({
+          status: "converted",
+          convertedUserId: user.id,
+          convertedAt: new Date(),
+          conversionType: accountExisted ? "existing_account" : "new_account",
+          updatedAt: new Date(),
+        })
+        .where(and(eq(leads.id, leadId), isNull(leads.convertedUserId)))
+        .returning();
+      if (!lead) return undefined;
+
+      let createdFavorites: Favorite[] = [];
+      let application: Application | undefined;
+
+      if (courseIds.length > 0 && target === "favorites") {
+        const existing = await tx
+          .select({ courseId: favorites.courseId })
+          .from(favorites)
+          .where(and(eq(favorites.userId, user.id), inArray(favorites.courseId, courseIds)));
+        const existingIds = new Set(existing.map((row) => row.courseId));
+        const toInsert = courseIds.filter((courseId) => !existingIds.has(courseId));
+
+        if (toInsert.length > 0) {
+          createdFavorites = await tx
+            .insert(favorites)
+            .values(toInsert.map((courseId) => ({ userId: user.id, courseId })))
+            .returning();
+        }
+      }
+
+      if (courseIds.length > 0 && target === "application") {
+        [application] = await tx
+          .insert(applications)
+          .values({
+            userId: user.id,
+            fullName: [lead.firstName, lead.lastName].filter(Boolean).join(" ") || lead.email,
+            email: lead.email,
+            phone: lead.phone ?? user.phone ?? "",
+            selectedCourses: courseIds,
+            additionalNotes: lead.notes,
+            status: "Draft",
+            assignedTo: lead.assignedTo,
+          })
+          .returning();
+
+        await tx
+          .insert(applicationChoices)
+          .values(courseIds.map((courseId) => ({ applicationId: application!.id, courseId })));
+
+        await tx.insert(applicationStatusHistory).values({
+          applicationId: application.id,
+          fromStatus: null,
+          toStatus: "Draft",
+          changedBy: performedBy,
+          reason: `Created from lead #${leadId}`,
+        });
+      }
+
+      await tx.insert(leadActivities).values({
+        leadId,
+        type: "conversion",
+        subject: accountExisted ? "Linked to existing account" : "Converted to new account",
+        content: application
+          ? `Draft application #${application.id} created with ${courseIds.length} course(s)`
+          : `${createdFavorites.length} course(s) added to favorites`,
+        status: "completed",
+        performedBy,
+      });
+
+      return { lead, user, accountExisted, favorites: createdFavorites, application };
+    });
+  }
+
+  async getLeadConversionStats(): Promise<LeadConversionStats> {
+    const [result] = await db
+      .select({
+        totalConverted: sql<number>`count(*)::int`,
+        newAccounts: sql<number>`count(*) filter (where ${leads.conversionType} = 'new_account')::int`,
+        existingAccounts: sql<number>`count(*) filter (where ${leads.conversionType} = 'existing_account')::int`,
+      })
+      .from(leads)
+      .where(eq(leads.status, "converted"));
+    return result;
+  }
+
+  // Lead assignment operations
+  // Single row with a fixed id, so concurrent first calls can't create two
+  async getLeadAssignmentSettings(): Promise<LeadAssignmentSettings> {
+    const [settings] = await db.select().from(leadAssignmentSettings).orderBy(asc(leadAssignmentSettings.id)).limit(1);
+    if (settings) return settings;
+
+    await db.insert(leadAssignmentSettings).values({ id: 1 }).onConflictDoNothing();
+    const [created] = await db.select().from(leadAssignmentSettings).where(eq(leadAssignmentSettings.id, 1));
+    return created;
+  }
+
+  async updateLeadAssignmentSettings(updates: Partial<InsertLeadAssignmentSettings>): Promise<LeadAssignmentSettings> {
+    const current = await this.getLeadAssignmentSettings();
+    const [updated] = await db
+      .update(leadAssignmentSettings)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(leadAssignmentSettings.id, current.id))
+      .returning();
+    return updated;
+  }
+
+  async getAssignmentCandidates(): Promise<AssignmentCandidate[]> {
+    const load = db
+      .select({
+        assignedTo: leads.assignedTo,
+        openLeads: sql<number>`count(*) filter (where ${leads.status} not in ('converted', 'closed') and ${leads.isArchived} = false)::int`.as("open_leads"),
+        lastAssignedAt: sql<string | null>`max(${leads.assignedAt})`.as("last_assigned_at"),
+      })
+      .from(leads)
+      .groupBy(leads.assignedTo)
+      .as("lead_load");
+
+    const result = await db
+      .select({
+        userId: adminUsers.userId,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+        languages: counselors.languages,
+        openLeads: load.openLeads,
+        lastAssignedAt: load.lastAssignedAt,
+      })
+      .from(adminUsers)
+      .innerJoin(users, eq(adminUsers.userId, users.id))
+      .leftJoin(counselors, and(eq(counselors.userId, adminUsers.userId), eq(counselors.isActive, true)))
+      .leftJoin(load, eq(load.assignedTo, adminUsers.userId))
+      .where(and(eq(adminUsers.role, "counselor"), eq(adminUsers.isActive, true)));
+
+    return result.map((row) => ({
+      userId: row.userId,
+      name: [row.firstName, row.lastName].filter(Boolean).join(" ") || row.email || row.userId,
+      languages: row.languages ?? [],
+      openLeads: row.openLeads ?? 0,
+      lastAssignedAt: row.lastAssignedAt ? new Date(row.lastAssignedAt) : null,
+    }));
+  }
+
+  async assignLead(
+    leadId: number,
+    assigneeId: string,
+    assignment: { performedBy?: string; reason: string },
+  ): Promise<Lead | undefined> {
+    return await db.transaction(async (tx) => {
+      const [lead] = await tx
+        .update(leads)
+        .set({ assignedTo: assigneeId, assignedAt: new Date(), updatedAt: new Date() })
+        .where(eq(leads.id, leadId))
+        .returning();
+      if (!lead) return undefined;
+
+      const leadName = [lead.firstName, lead.lastName].filter(Boolean).join(" ") || lead.email;
+
+      await tx.insert(leadActivities).values({
+        leadId,
+        type: "assignment",
+        subject: "Lead assigned",
+        content: assignment.reason,
+        status: "completed",
+        performedBy: assignment.performedBy,
+      });
+
+      const [notification] = await tx.insert(notifications).values({
+        userId: assigneeId,
+        type: "lead",
+        title: "New Lead Assigned",
+        message: `${leadName} (${lead.source}) has been assigned to you.`,
+        isRead: false,
+      }).returning();
+      await queueNotificationEmail(tx, notification);
+
+      return lead;
+    });
+  }
+
+  async getLeadByConvertedUserId(userId: string): Promise<Lead | undefined> {
+    const [lead] = await db
+      .select()
+      .from(leads)
+      .where(eq(leads.convertedUserId, userId))
+      .orderBy(desc(leads.convertedAt))
+      .limit(1);
+    return lead;
+  }
+
+  // Outbound messaging operations
+  async createOutboundMessage(message: InsertOutboundMessage): Promise<OutboundMessage> {
+    const [created] = await db.insert(outboundMessages).values(message).returning();
+    return created;
+  }
+
+  async getOutboundMessages(filters?: OutboundMessageFilters): Promise<OutboundMessage[]> {
+    const conditions: SQL[] = [];
+    if (filters?.leadId !== undefined) conditions.push(eq(outboundMessages.leadId, filters.leadId));
+    if (filters?.userId) conditions.push(eq(outboundMessages.userId, filters.userId));
+    if (filters?.sentBy) conditions.push(eq(outboundMessages.sentBy, filters.sentBy));
+    if (filters?.status) conditions.push(eq(outboundMessages.status, filters.status));
+
+    return await db
+      .select()
+      .from(outboundMessages)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(outboundMessages.createdAt));
+  }
+
+  async getOutboundMessageById(id: number): Promise<OutboundMessage | undefined> {
+    const [message] = await db.select().from(outboundMessages).where(eq(outboundMessages.id, id));
+    return message;
+  }
+
+  async getOutboundMessageByProviderId(provider: string, providerMessageId: string): Promise<OutboundMessage | undefined> {
+    const [message] = await db
+      .select()
+      .from(outboundMessages)
+      .where(and(eq(outboundMessages.provider, provider), eq(outboundMessages.providerMessageId, providerMessageId)));
+    return message;
+  }
+
+  // Marks due messages as sending so concurrent workers skip them. Messages stuck in
+  // "sending" since before staleBefore (a worker died mid-send) are picked up again.
+  async claimDueMessages(limit: number, staleBefore: Date): Promise<OutboundMessage[]> {
+    const now = new Date();
+    const due = db
+      .select({ id: outboundMessages.id })
+      .from(outboundMessages)
+      .where(or(
+        and(eq(outboundMessages.status, "queued"), lte(outboundMessages.nextAttemptAt, now)),
+        and(eq(outboundMessages.status, "sending"), lt(outboundMessages.updatedAt, staleBefore)),
+      ))
+      .orderBy(asc(outboundMessages.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db
+      .update(outboundMessages)
+      .set({
+        status: "sending",
+        attempts: sql`${outboundMessages.attempts} + 1`,
+        updatedAt: now,
+      })
+      .where(inArray(outboundMessages.id, due))
+      .returning();
+  }
+
+  async updateOutboundMessage(id: number, updates: Partial<InsertOutboundMessage>): Promise<OutboundMessage | undefined> {
+    const [updated] = await db
+      .update(outboundMessages)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(outboundMessages.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Email outbox operations
+  async getEmails(filters?: EmailOutboxFilters): Promise<EmailOutbox[]> {
+    const conditions: SQL[] = [];
+    if (filters?.status) conditions.push(eq(emailOutbox.status, filters.status));
+    if (filters?.userId) conditions.push(eq(emailOutbox.userId, filters.userId));
+
+    return await db
+      .select()
+      .from(emailOutbox)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(emailOutbox.createdAt));
+  }
+
+  async getEmailById(id: number): Promise<EmailOutbox | undefined> {
+    const [email] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id));
+    return email;
+  }
+
+  async getEmailByMessageId(messageId: string): Promise<EmailOutbox | undefined> {
+    const [email] = await db.select().from(emailOutbox).where(eq(emailOutbox.messageId, messageId));
+    return email;
+  }
+
+  // Same claiming scheme as claimDueMessages
+  async claimDueEmails(limit: number, staleBefore: Date): Promise<EmailOutbox[]> {
+    const now = new Date();
+    const due = db
+      .select({ id: emailOutbox.id })
+      .from(emailOutbox)
+      .where(or(
+        and(eq(emailOutbox.status, "queued"), lte(emailOutbox.nextAttemptAt, now)),
+        and(eq(emailOutbox.status, "sending"), lt(emailOutbox.updatedAt, staleBefore)),
+      ))
+      .orderBy(asc(emailOutbox.nextAttemptAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+
+    return await db
+      .update(emailOutbox)
+      .set({
+        status: "sending",
+        attempts: sql`${emailOutbox.attempts} + 1`,
+        updatedAt: now,
+      })
+      .where(inArray(emailOutbox.id, due))
+      .returning();
+  }
+
+  async updateEmail(id: number, updates: Partial<InsertEmailOutbox>): Promise<EmailOutbox | undefined> {
+    const [updated] = await db
+      .update(emailOutbox)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(emailOutbox.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Lifts the suppression on an address, e.g. once the student has fixed their mailbox; returns the bounces cleared
+  async clearEmailSuppression(toAddress: string): Promise<number> {
+    const cleared = await db
+      .update(emailOutbox)
+      .set({ suppressionClearedAt: new Date(), updatedAt: new Date() })
+      .where(suppressingBounce(toAddress.toLowerCase()))
+      .returning({ id: emailOutbox.id });
+    return cleared.length;
+  }
+}
+
+// Relational queries return null for missing one-relations; LeadWithActivities uses optional fields
+function toLeadWithActivities(
+  lead: Lead & { activities: LeadWithActivities["activities"]; convertedUser: User | null; assignedToUser: User | null },
+): LeadWithActivities {
+  return {
+    ...lead,
+    convertedUser: lead.convertedUser ?? undefined,
+    assignedToUser: lead.assignedToUser ?? undefined,
+  };
 }
 
 export const storage = new DatabaseStorage();
@@ -41,4 +41,28 @@ export const requireAuth: RequestHandler = async (req: any, res, next) => {
     console.error('Auth error:', error);
     res.status(500).json({ error: 'Authentication failed' });
   }
-};
\ No newline at end of file
+};
+
+// Create a Supabase auth account so the user row shares its id with a future login
+export async function createAuthUser(email: string, fullName?: string) {
+  const { data, error } = await supabase.auth.admin.createUser({
+    email,
+    email_confirm: false,
+    user_metadata: fullName ? { full_name: fullName } : undefined,
+  });
+
+  if (error || !data.user) {
+    throw new Error(`Failed to create auth user for ${email}: ${error?.message ?? 'unknown error'}`);
+  }
+
+  return data.user;
+}
+
+// Undo createAuthUser (and the user row made for it) when the work it was created for fails
+export async function discardNewAccount(id: string) {
+  await storage.deleteUser(id);
+  const { error } = await supabase.auth.admin.deleteUser(id);
+  if (error) {
+    throw new Error(`Failed to delete auth user ${id}: ${error.message}`);
+  }
+}
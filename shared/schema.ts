@@ -9,10 +9,13 @@ import {
   integer,
   decimal,
   boolean,
+  unique,
+  uniqueIndex,
+  date,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 
 // Session storage table (mandatory for Replit Auth)
 export const sessions = pgTable(
@@ -33,6 +36,10 @@ export const users = pgTable("users", {
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
   phone: varchar("phone"),
+  // Student profile, used to match scholarships
+  nationality: varchar("nationality", { length: 2 }), // ISO 3166-1 alpha-2
+  studyLevel: varchar("study_level"), // level the student wants to study: Bachelor's, Master's, PhD
+  academicGrade: decimal("academic_grade", { precision: 5, scale: 2 }), // latest result as a percentage
   isAdmin: boolean("is_admin").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -41,23 +48,28 @@ export const users = pgTable("users", {
 // Universities table
 export const universities = pgTable("universities", {
   id: serial("id").primaryKey(),
+  externalCode: varchar("external_code", { length: 50 }).unique(), // stable key for catalogue import/export
   name: varchar("name").notNull(),
   city: varchar("city").notNull(),
   country: varchar("country").notNull(),
   googleMapUrl: varchar("google_map_url"),
   imageUrl: varchar("image_url"),
+  isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  nameTrgmIdx: index("universities_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+}));
 
 // Courses table
 export const courses = pgTable("courses", {
   id: serial("id").primaryKey(),
+  externalCode: varchar("external_code", { length: 50 }).unique(), // stable key for catalogue import/export
   name: varchar("name").notNull(),
   universityId: integer("university_id").references(() => universities.id).notNull(),
   level: varchar("level").notNull(), // Bachelor's, Master's, PhD
   duration: varchar("duration").notNull(), // "3 Years", "2 Years", etc.
   tuitionFee: decimal("tuition_fee", { precision: 10, scale: 2 }).notNull(),
-  currency: varchar("currency").default("GBP"),
+  currency: varchar("currency").default("GBP"), // ISO 4217 code
   ieltsOverall: decimal("ielts_overall", { precision: 2, scale: 1 }).notNull(),
   ieltsListening: decimal("ielts_listening", { precision: 2, scale: 1 }),
   ieltsReading: decimal("ielts_reading", { precision: 2, scale: 1 }),
@@ -65,7 +77,8 @@ export const courses = pgTable("courses", {
   ieltsSpeaking: decimal("ielts_speaking", { precision: 2, scale: 1 }),
   faculty: varchar("faculty").notNull(),
   scholarships: text("scholarships").array(),
-  startDates: varchar("start_dates"),
+  startDates: varchar("start_dates"), // free-text summary; see courseIntakes for structured dates
+  isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => ({
   universityIdIdx: index("courses_university_id_idx").on(table.universityId),
@@ -73,28 +86,189 @@ export const courses = pgTable("courses", {
   levelIdx: index("courses_level_idx").on(table.level),
   ieltsOverallIdx: index("courses_ielts_overall_idx").on(table.ieltsOverall),
   nameIdx: index("courses_name_idx").on(table.name),
+  // Trigram index backing typo-tolerant search; requires the pg_trgm extension
+  nameTrgmIdx: index("courses_name_trgm_idx").using("gin", table.name.op("gin_trgm_ops")),
+}));
+
+// Minimum scores for English tests other than IELTS; IELTS minima live on the course row
+export const courseEnglishRequirements = pgTable("course_english_requirements", {
+  id: serial("id").primaryKey(),
+  courseId: integer("course_id").notNull().references(() => courses.id),
+  testType: varchar("test_type", { length: 20 }).notNull(), // see ENGLISH_TESTS
+  overall: decimal("overall", { precision: 5, scale: 1 }).notNull(),
+  listening: decimal("listening", { precision: 5, scale: 1 }),
+  reading: decimal("reading", { precision: 5, scale: 1 }),
+  writing: decimal("writing", { precision: 5, scale: 1 }),
+  speaking: decimal("speaking", { precision: 5, scale: 1 }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  courseTestUnique: unique("course_english_requirements_course_test_unique").on(table.courseId, table.testType),
+}));
+
+// Admin-maintained score needed on another test to count as a given IELTS band
+export const englishTestEquivalences = pgTable("english_test_equivalences", {
+  id: serial("id").primaryKey(),
+  testType: varchar("test_type", { length: 20 }).notNull(),
+  component: varchar("component", { length: 20 }).notNull().default("overall"), // see IELTS_COMPONENTS
+  ieltsBand: decimal("ielts_band", { precision: 2, scale: 1 }).notNull(),
+  minScore: decimal("min_score", { precision: 5, scale: 1 }).notNull(),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  testComponentBandUnique: unique("english_test_equivalences_test_component_band_unique").on(table.testType, table.component, table.ieltsBand),
+}));
+
+// Scholarships offered by a university, optionally limited to one course
+export const scholarships = pgTable("scholarships", {
+  id: serial("id").primaryKey(),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  universityId: integer("university_id").notNull().references(() => universities.id),
+  courseId: integer("course_id").references(() => courses.id), // null: any course at the university
+  amountType: varchar("amount_type", { length: 20 }).notNull(), // see SCHOLARSHIP_AMOUNT_TYPES
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // fixed sum in `currency`, or percent of tuition
+  currency: varchar("currency", { length: 3 }).default("GBP"),
+  nationalities: varchar("nationalities", { length: 2 }).array(), // null or empty: open to all nationalities
+  levels: varchar("levels").array(), // null or empty: the course's level, or any level
+  minGrade: decimal("min_grade", { precision: 5, scale: 2 }), // minimum academic grade as a percentage
+  deadline: date("deadline"),
+  applicationUrl: varchar("application_url"),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  universityIdIdx: index("scholarships_university_id_idx").on(table.universityId),
+  courseIdIdx: index("scholarships_course_id_idx").on(table.courseId),
+  deadlineIdx: index("scholarships_deadline_idx").on(table.deadline),
+}));
+
+// Intakes per course; an intake is only offered while open and before its application deadline
+export const courseIntakes = pgTable("course_intakes", {
+  id: serial("id").primaryKey(),
+  courseId: integer("course_id").notNull().references(() => courses.id),
+  startMonth: varchar("start_month", { length: 7 }).notNull(), // YYYY-MM
+  applicationDeadline: date("application_deadline").notNull(),
+  casDeadline: date("cas_deadline"),
+  isOpen: boolean("is_open").default(true),
+  reminderSentAt: timestamp("reminder_sent_at"), // deadline reminder sent to students who favorited the course
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  courseStartUnique: unique("course_intakes_course_start_unique").on(table.courseId, table.startMonth),
+  startMonthIdx: index("course_intakes_start_month_idx").on(table.startMonth),
+  applicationDeadlineIdx: index("course_intakes_application_deadline_idx").on(table.applicationDeadline),
+}));
+
+// Students already reminded about an intake's deadline, so a retried run only notifies the rest
+export const deadlineReminders = pgTable("deadline_reminders", {
+  id: serial("id").primaryKey(),
+  intakeId: integer("intake_id").notNull().references(() => courseIntakes.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  sentAt: timestamp("sent_at").defaultNow(),
+}, (table) => ({
+  intakeUserUnique: unique("deadline_reminders_intake_user_unique").on(table.intakeId, table.userId),
+}));
+
+// Manually maintained exchange rates, expressed as units of `currency` per 1 GBP
+export const exchangeRates = pgTable("exchange_rates", {
+  id: serial("id").primaryKey(),
+  currency: varchar("currency", { length: 3 }).notNull(),
+  ratePerGbp: decimal("rate_per_gbp", { precision: 14, scale: 6 }).notNull(),
+  rateDate: date("rate_date").notNull(),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  currencyDateUnique: unique("exchange_rates_currency_date_unique").on(table.currency, table.rateDate),
 }));
 
 // Counselors table
 export const counselors = pgTable("counselors", {
   id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id).unique(), // login account with the counselor role
   name: varchar("name").notNull(),
   title: varchar("title").notNull(),
   whatsapp: varchar("whatsapp").notNull(),
   languages: varchar("languages").array().notNull(),
   experience: varchar("experience"),
+  bio: text("bio"),
+  yearsExperience: integer("years_experience"),
+  // Specialisations, used to match counselors to students
+  faculties: varchar("faculties").array(),
+  levels: varchar("levels").array(),
+  universityIds: integer("university_ids").array(), // destination universities they know well
   profileImageUrl: varchar("profile_image_url"),
+  timezone: varchar("timezone", { length: 50 }).default("Asia/Dhaka"), // availability is entered in this zone
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// One rating per student per counselor; students may update theirs
+export const counselorRatings = pgTable("counselor_ratings", {
+  id: serial("id").primaryKey(),
+  counselorId: integer("counselor_id").notNull().references(() => counselors.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  rating: integer("rating").notNull(), // 1-5
+  comment: text("comment"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  counselorUserUnique: unique("counselor_ratings_counselor_user_unique").on(table.counselorId, table.userId),
+}));
+
+// Weekly availability windows, in the counselor's time zone
+export const counselorAvailability = pgTable("counselor_availability", {
+  id: serial("id").primaryKey(),
+  counselorId: integer("counselor_id").notNull().references(() => counselors.id),
+  weekday: integer("weekday").notNull(), // 0 = Sunday
+  startTime: varchar("start_time", { length: 5 }).notNull(), // HH:MM
+  endTime: varchar("end_time", { length: 5 }).notNull(),
+  slotMinutes: integer("slot_minutes").default(30),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  counselorIdIdx: index("counselor_availability_counselor_id_idx").on(table.counselorId),
+}));
+
+export const counselorTimeOff = pgTable("counselor_time_off", {
+  id: serial("id").primaryKey(),
+  counselorId: integer("counselor_id").notNull().references(() => counselors.id),
+  startsAt: timestamp("starts_at", { withTimezone: true }).notNull(),
+  endsAt: timestamp("ends_at", { withTimezone: true }).notNull(),
+  reason: varchar("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  counselorIdIdx: index("counselor_time_off_counselor_id_idx").on(table.counselorId),
+}));
+
+export const appointments = pgTable("appointments", {
+  id: serial("id").primaryKey(),
+  counselorId: integer("counselor_id").notNull().references(() => counselors.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  startsAt: timestamp("starts_at", { withTimezone: true }).notNull(),
+  endsAt: timestamp("ends_at", { withTimezone: true }).notNull(),
+  status: varchar("status", { length: 20 }).default("booked"), // see APPOINTMENT_STATUSES
+  studentTimezone: varchar("student_timezone", { length: 50 }).default("Asia/Dhaka"),
+  notes: text("notes"),
+  cancelledBy: varchar("cancelled_by").references(() => users.id),
+  cancellationReason: text("cancellation_reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  // Last line of defence against double booking; overlaps are checked under a lock when booking
+  counselorSlotUnique: uniqueIndex("appointments_counselor_slot_unique")
+    .on(table.counselorId, table.startsAt)
+    .where(sql`status = 'booked'`),
+  userIdIdx: index("appointments_user_id_idx").on(table.userId),
+}));
+
 // Favorites table
 export const favorites = pgTable("favorites", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").references(() => users.id).notNull(),
   courseId: integer("course_id").references(() => courses.id).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  userCourseUnique: unique("favorites_user_course_unique").on(table.userId, table.courseId),
+}));
 
 // Applications table
 export const applications = pgTable("applications", {
@@ -105,11 +279,60 @@ export const applications = pgTable("applications", {
   phone: varchar("phone").notNull(),
   selectedCourses: integer("selected_courses").array().notNull(),
   additionalNotes: text("additional_notes"),
-  status: varchar("status").default("submitted"), // Application status stages
+  status: varchar("status").default("Submitted"), // see APPLICATION_STATUSES
+  assignedTo: varchar("assigned_to").references(() => users.id), // counselor handling the application
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Each course chosen on an application, with its own university decision
+export const applicationChoices = pgTable("application_choices", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => applications.id),
+  courseId: integer("course_id").notNull().references(() => courses.id),
+  status: varchar("status", { length: 50 }).default("Pending"), // see APPLICATION_CHOICE_STATUSES
+  offerType: varchar("offer_type", { length: 20 }), // conditional, unconditional
+  offerConditions: text("offer_conditions"),
+  decisionDate: timestamp("decision_date"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  applicationCourseUnique: unique("application_choices_application_course_unique").on(table.applicationId, table.courseId),
+  courseIdIdx: index("application_choices_course_id_idx").on(table.courseId),
+}));
+
+// Supporting documents uploaded against an application; file bytes live in the document store
+export const applicationDocuments = pgTable("application_documents", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => applications.id),
+  type: varchar("type", { length: 50 }).notNull(), // see DOCUMENT_TYPES
+  fileName: varchar("file_name", { length: 255 }).notNull(),
+  mimeType: varchar("mime_type", { length: 100 }).notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  storageKey: varchar("storage_key", { length: 500 }).notNull(),
+  reviewStatus: varchar("review_status", { length: 20 }).default("pending"), // pending, accepted, rejected
+  reviewComment: text("review_comment"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  uploadedBy: varchar("uploaded_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  applicationIdIdx: index("application_documents_application_id_idx").on(table.applicationId),
+}));
+
+// Application status history, one row per status change
+export const applicationStatusHistory = pgTable("application_status_history", {
+  id: serial("id").primaryKey(),
+  applicationId: integer("application_id").notNull().references(() => applications.id),
+  fromStatus: varchar("from_status"),
+  toStatus: varchar("to_status").notNull(),
+  changedBy: varchar("changed_by").references(() => users.id),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  applicationIdIdx: index("application_status_history_application_id_idx").on(table.applicationId),
+}));
+
 // Notifications table
 export const notifications = pgTable("notifications", {
   id: serial("id").primaryKey(),
@@ -117,10 +340,40 @@ export const notifications = pgTable("notifications", {
   title: varchar("title").notNull(),
   message: text("message").notNull(),
   isRead: boolean("is_read").default(false),
-  type: varchar("type").default("info"), // info, application, appointment, critical
+  type: varchar("type").default("info"), // see NOTIFICATION_TYPES
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Email copies of notifications, written in the same transaction as the notification and sent by the email worker
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  // Also used as the Message-ID, so a resend after a crash mid-send can be recognised downstream
+  idempotencyKey: varchar("idempotency_key", { length: 255 }).notNull().unique(),
+  userId: varchar("user_id").references(() => users.id),
+  notificationId: integer("notification_id").references(() => notifications.id),
+  toAddress: varchar("to_address", { length: 255 }).notNull(),
+  template: varchar("template", { length: 50 }).notNull(), // notification type the email was rendered from
+  subject: varchar("subject", { length: 255 }).notNull(),
+  html: text("html").notNull(),
+  text: text("text").notNull(),
+  status: varchar("status", { length: 20 }).default("queued"), // see EMAIL_STATUSES
+  attempts: integer("attempts").default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  lastError: text("last_error"),
+  messageId: varchar("message_id", { length: 255 }),
+  sentAt: timestamp("sent_at"),
+  bouncedAt: timestamp("bounced_at"),
+  bounceType: varchar("bounce_type", { length: 10 }), // see EMAIL_BOUNCE_TYPES
+  // Set when an admin lifts the suppression a hard bounce put on the address
+  suppressionClearedAt: timestamp("suppression_cleared_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  dueIdx: index("email_outbox_due_idx").on(table.status, table.nextAttemptAt),
+  toAddressIdx: index("email_outbox_to_address_idx").on(table.toAddress),
+  messageIdIdx: index("email_outbox_message_id_idx").on(table.messageId),
+}));
+
 // Tutorials table
 export const tutorials = pgTable("tutorials", {
   id: serial("id").primaryKey(),
@@ -145,18 +398,32 @@ export const leads = pgTable("leads", {
   priority: varchar("priority", { length: 20 }).default("medium"), // low, medium, high
   notes: text("notes"),
   referredBy: varchar("referred_by", { length: 255 }),
+  utmSource: varchar("utm_source", { length: 100 }),
+  utmMedium: varchar("utm_medium", { length: 100 }),
+  utmCampaign: varchar("utm_campaign", { length: 255 }),
+  utmTerm: varchar("utm_term", { length: 255 }),
+  utmContent: varchar("utm_content", { length: 255 }),
   interestedCourses: text("interested_courses").array(),
+  preferredLanguage: varchar("preferred_language", { length: 50 }),
   lastContactedAt: timestamp("last_contacted_at"),
   convertedUserId: varchar("converted_user_id").references(() => users.id),
+  convertedAt: timestamp("converted_at"),
+  conversionType: varchar("conversion_type", { length: 20 }), // new_account, existing_account
   assignedTo: varchar("assigned_to").references(() => users.id),
+  assignedAt: timestamp("assigned_at"),
+  isArchived: boolean("is_archived").default(false),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => ({
+  statusIdx: index("leads_status_idx").on(table.status),
+  assignedToIdx: index("leads_assigned_to_idx").on(table.assignedTo),
+  emailIdx: index("leads_email_idx").on(table.email),
+}));
 
 // Admin users table for role-based access
 export const adminUsers = pgTable("admin_users", {
   id: serial("id").primaryKey(),
-  userId: varchar("user_id").notNull().references(() => users.id),
+  userId: varchar("user_id").notNull().unique().references(() => users.id),
   role: varchar("role", { length: 50 }).default("admin"), // admin, super_admin, counselor
   permissions: text("permissions").array().default([]),
   isActive: boolean("is_active").default(true),
@@ -167,18 +434,61 @@ export const adminUsers = pgTable("admin_users", {
 export const leadActivities = pgTable("lead_activities", {
   id: serial("id").primaryKey(),
   leadId: integer("lead_id").notNull().references(() => leads.id),
-  type: varchar("type", { length: 50 }).notNull(), // email, whatsapp, call, note, meeting
+  type: varchar("type", { length: 50 }).notNull(), // email, whatsapp, sms, call, note, meeting, conversion, assignment
   subject: varchar("subject", { length: 255 }),
   content: text("content"),
   status: varchar("status", { length: 50 }).default("completed"), // scheduled, completed, failed
   scheduledAt: timestamp("scheduled_at"),
   performedBy: varchar("performed_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  leadIdIdx: index("lead_activities_lead_id_idx").on(table.leadId),
+  scheduledAtIdx: index("lead_activities_scheduled_at_idx").on(table.scheduledAt),
+}));
+
+// Outbound WhatsApp/SMS queue; the message worker claims due rows and hands them to the provider
+export const outboundMessages = pgTable("outbound_messages", {
+  id: serial("id").primaryKey(),
+  channel: varchar("channel", { length: 20 }).notNull(), // whatsapp, sms
+  recipientPhone: varchar("recipient_phone", { length: 20 }).notNull(),
+  leadId: integer("lead_id").references(() => leads.id),
+  userId: varchar("user_id").references(() => users.id),
+  template: varchar("template", { length: 50 }).notNull(), // see MESSAGE_TEMPLATES
+  body: text("body").notNull(),
+  status: varchar("status", { length: 20 }).default("queued"), // see MESSAGE_STATUSES
+  attempts: integer("attempts").default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(),
+  lastError: text("last_error"),
+  provider: varchar("provider", { length: 50 }),
+  providerMessageId: varchar("provider_message_id", { length: 255 }),
+  leadActivityId: integer("lead_activity_id").references(() => leadActivities.id),
+  sentBy: varchar("sent_by").references(() => users.id),
+  sentAt: timestamp("sent_at"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  dueIdx: index("outbound_messages_due_idx").on(table.status, table.nextAttemptAt),
+  leadIdIdx: index("outbound_messages_lead_id_idx").on(table.leadId),
+  userIdIdx: index("outbound_messages_user_id_idx").on(table.userId),
+  providerMessageIdx: index("outbound_messages_provider_message_idx").on(table.provider, table.providerMessageId),
+}));
+
+// Lead assignment configuration (single row)
+export const leadAssignmentSettings = pgTable("lead_assignment_settings", {
+  id: serial("id").primaryKey(),
+  autoAssign: boolean("auto_assign").default(true),
+  // least_loaded weighs open-lead load and breaks ties round-robin; round_robin ignores load
+  strategy: varchar("strategy", { length: 20 }).default("least_loaded"), // round_robin, least_loaded
+  matchLanguage: boolean("match_language").default(true),
+  maxOpenLeads: integer("max_open_leads"),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Relations
 export const universitiesRelations = relations(universities, ({ many }) => ({
   courses: many(courses),
+  scholarships: many(scholarships),
 }));
 
 export const coursesRelations = relations(courses, ({ one, many }) => ({
@@ -187,6 +497,44 @@ export const coursesRelations = relations(courses, ({ one, many }) => ({
     references: [universities.id],
   }),
   favorites: many(favorites),
+  englishRequirements: many(courseEnglishRequirements),
+  intakes: many(courseIntakes),
+}));
+
+export const scholarshipsRelations = relations(scholarships, ({ one }) => ({
+  university: one(universities, {
+    fields: [scholarships.universityId],
+    references: [universities.id],
+  }),
+  course: one(courses, {
+    fields: [scholarships.courseId],
+    references: [courses.id],
+  }),
+}));
+
+export const appointmentsRelations = relations(appointments, ({ one }) => ({
+  counselor: one(counselors, {
+    fields: [appointments.counselorId],
+    references: [counselors.id],
+  }),
+  user: one(users, {
+    fields: [appointments.userId],
+    references: [users.id],
+  }),
+}));
+
+export const courseIntakesRelations = relations(courseIntakes, ({ one }) => ({
+  course: one(courses, {
+    fields: [courseIntakes.courseId],
+    references: [courses.id],
+  }),
+}));
+
+export const courseEnglishRequirementsRelations = relations(courseEnglishRequirements, ({ one }) => ({
+  course: one(courses, {
+    fields: [courseEnglishRequirements.courseId],
+    references: [courses.id],
+  }),
 }));
 
 export const usersRelations = relations(users, ({ many }) => ({
@@ -206,11 +554,43 @@ export const favoritesRelations = relations(favorites, ({ one }) => ({
   }),
 }));
 
-export const applicationsRelations = relations(applications, ({ one }) => ({
+export const applicationsRelations = relations(applications, ({ one, many }) => ({
   user: one(users, {
     fields: [applications.userId],
     references: [users.id],
   }),
+  statusHistory: many(applicationStatusHistory),
+  choices: many(applicationChoices),
+  documents: many(applicationDocuments),
+}));
+
+export const applicationDocumentsRelations = relations(applicationDocuments, ({ one }) => ({
+  application: one(applications, {
+    fields: [applicationDocuments.applicationId],
+    references: [applications.id],
+  }),
+}));
+
+export const applicationChoicesRelations = relations(applicationChoices, ({ one }) => ({
+  application: one(applications, {
+    fields: [applicationChoices.applicationId],
+    references: [applications.id],
+  }),
+  course: one(courses, {
+    fields: [applicationChoices.courseId],
+    references: [courses.id],
+  }),
+}));
+
+export const applicationStatusHistoryRelations = relations(applicationStatusHistory, ({ one }) => ({
+  application: one(applications, {
+    fields: [applicationStatusHistory.applicationId],
+    references: [applications.id],
+  }),
+  changedByUser: one(users, {
+    fields: [applicationStatusHistory.changedBy],
+    references: [users.id],
+  }),
 }));
 
 export const notificationsRelations = relations(notifications, ({ one }) => ({
@@ -250,6 +630,32 @@ export const leadActivitiesRelations = relations(leadActivities, ({ one }) => ({
   }),
 }));
 
+export const emailOutboxRelations = relations(emailOutbox, ({ one }) => ({
+  user: one(users, {
+    fields: [emailOutbox.userId],
+    references: [users.id],
+  }),
+  notification: one(notifications, {
+    fields: [emailOutbox.notificationId],
+    references: [notifications.id],
+  }),
+}));
+
+export const outboundMessagesRelations = relations(outboundMessages, ({ one }) => ({
+  lead: one(leads, {
+    fields: [outboundMessages.leadId],
+    references: [leads.id],
+  }),
+  user: one(users, {
+    fields: [outboundMessages.userId],
+    references: [users.id],
+  }),
+  leadActivity: one(leadActivities, {
+    fields: [outboundMessages.leadActivityId],
+    references: [leadActivities.id],
+  }),
+}));
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
@@ -261,16 +667,287 @@ export const insertUniversitySchema = createInsertSchema(universities).omit({
   createdAt: true,
 });
 
-export const insertCourseSchema = createInsertSchema(courses).omit({
+// Symbols found in older course data, mapped to their ISO 4217 codes
+export const CURRENCY_SYMBOLS: Record<string, string> = {
+  "£": "GBP",
+  "$": "USD",
+  "€": "EUR",
+  "৳": "BDT",
+  "₹": "INR",
+  "₦": "NGN",
+};
+
+export const currencyCodeSchema = z.preprocess(
+  (value) => typeof value === "string" ? CURRENCY_SYMBOLS[value.trim()] ?? value.trim().toUpperCase() : value,
+  z.string().regex(/^[A-Z]{3}$/, "Currency must be a three-letter ISO 4217 code"),
+);
+
+// Decimal columns arrive as strings from CSV and as numbers from JSON
+const decimalString = (pattern: RegExp, message: string) =>
+  z.union([z.number(), z.string().trim()]).transform(String).pipe(z.string().regex(pattern, message));
+const tuitionAmount = decimalString(/^\d{1,8}(\.\d{1,2})?$/, "Tuition fee must be a number with up to 2 decimals");
+const ieltsRequirement = decimalString(/^\d(\.[05])?$/, "IELTS requirement must be a band such as 6.5");
+
+export const insertCourseSchema = createInsertSchema(courses, {
+  currency: currencyCodeSchema.optional(),
+  scholarships: z.array(z.string()).nullish(),
+  tuitionFee: tuitionAmount,
+  ieltsOverall: ieltsRequirement,
+  ieltsListening: ieltsRequirement.nullish(),
+  ieltsReading: ieltsRequirement.nullish(),
+  ieltsWriting: ieltsRequirement.nullish(),
+  ieltsSpeaking: ieltsRequirement.nullish(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertCounselorSchema = createInsertSchema(counselors).omit({
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates, {
+  currency: currencyCodeSchema.refine((code) => code !== "GBP", { message: "Rates are quoted against GBP" }),
+  ratePerGbp: z.union([z.number(), z.string()]).transform(String).refine((rate) => parseFloat(rate) > 0, {
+    message: "Rate must be positive",
+  }),
+  rateDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Rate date must be YYYY-MM-DD"),
+}).omit({
   id: true,
+  updatedBy: true,
+  updatedAt: true,
+});
+
+const isoDate = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD")
+  .refine((value) => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+  }, "Dates must be real calendar dates");
+const startMonth = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Start month must be YYYY-MM");
+
+export const insertCourseIntakeSchema = createInsertSchema(courseIntakes, {
+  startMonth,
+  applicationDeadline: isoDate,
+  casDeadline: isoDate.nullish(),
+}).omit({
+  id: true,
+  courseId: true,
+  reminderSentAt: true,
   createdAt: true,
+  updatedAt: true,
 });
 
+export const SCHOLARSHIP_AMOUNT_TYPES = ["fixed", "percentage"] as const;
+
+const countryCode = z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, "Use two-letter ISO country codes");
+const gradePercent = z.union([z.number(), z.string()]).transform(String)
+  .refine((grade) => !Number.isNaN(Number(grade)) && Number(grade) >= 0 && Number(grade) <= 100, {
+    message: "Grades are percentages between 0 and 100",
+  });
+
+export const insertScholarshipSchema = createInsertSchema(scholarships, {
+  amountType: z.enum(SCHOLARSHIP_AMOUNT_TYPES),
+  amount: z.union([z.number(), z.string()]).transform(String)
+    .refine((amount) => Number(amount) > 0, { message: "Amount must be positive" }),
+  currency: currencyCodeSchema.optional(),
+  nationalities: z.array(countryCode).nullish(),
+  levels: z.array(z.string().trim().min(1)).nullish(),
+  minGrade: gradePercent.nullish(),
+  deadline: isoDate.nullish(),
+  applicationUrl: z.string().url().nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const scholarshipSearchSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  universityId: z.coerce.number().int().optional(),
+  courseId: z.coerce.number().int().optional(),
+  level: z.string().trim().optional(),
+  nationality: countryCode.optional(),
+  includeExpired: z.enum(["true", "false"]).transform((value) => value === "true").default("false"),
+});
+
+// Fields a student can edit on their own profile
+export const studentProfileSchema = z.object({
+  firstName: z.string().trim().min(1).max(100).optional(),
+  lastName: z.string().trim().max(100).optional(),
+  phone: z.string().trim().max(30).optional(),
+  nationality: countryCode.nullish(),
+  studyLevel: z.string().trim().min(1).nullish(),
+  academicGrade: gradePercent.nullish(),
+});
+
+// Tuition range and currency conversion shared by /api/courses and /api/courses/search
+export const tuitionFilterSchema = z.object({
+  minTuition: z.coerce.number().min(0).optional(),
+  maxTuition: z.coerce.number().min(0).optional(),
+  displayCurrency: currencyCodeSchema.optional(),
+});
+
+export const COURSE_SORT_FIELDS = ["relevance", "tuitionFee", "ieltsOverall", "duration", "name"] as const;
+
+// Query string for GET /api/courses/search
+export const courseSearchSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  faculty: z.string().trim().optional(),
+  level: z.string().trim().optional(),
+  city: z.string().trim().optional(),
+  ieltsScore: z.coerce.number().min(0).max(9).optional(),
+  ...tuitionFilterSchema.shape,
+  sort: z.enum(COURSE_SORT_FIELDS).default("relevance"),
+  order: z.enum(["asc", "desc"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const IELTS_COMPONENTS = ["overall", "listening", "reading", "writing", "speaking"] as const;
+export type IeltsComponent = typeof IELTS_COMPONENTS[number];
+
+export const ENGLISH_TESTS = ["ielts", "pte", "toefl", "duolingo", "oxford"] as const;
+export type EnglishTest = typeof ENGLISH_TESTS[number];
+
+// Score range and granularity of each test; TOEFL sub-scores are reported out of 30
+export const ENGLISH_TEST_SCALES: Record<EnglishTest, { min: number; max: number; step: number; subScoreMax?: number }> = {
+  ielts: { min: 0, max: 9, step: 0.5 },
+  pte: { min: 10, max: 90, step: 1 },
+  toefl: { min: 0, max: 120, step: 1, subScoreMax: 30 },
+  duolingo: { min: 10, max: 160, step: 5 },
+  oxford: { min: 0, max: 170, step: 1 },
+};
+
+function withinTestScale<T extends { testType: EnglishTest }>(
+  data: T & Partial<Record<IeltsComponent, number | string | null>>,
+  ctx: z.RefinementCtx,
+) {
+  const scale = ENGLISH_TEST_SCALES[data.testType];
+  for (const component of IELTS_COMPONENTS) {
+    const raw = data[component];
+    if (raw == null) continue;
+    const score = Number(raw);
+    const max = component !== "overall" && scale.subScoreMax ? scale.subScoreMax : scale.max;
+    const min = Math.min(scale.min, max);
+    if (score < min || score > max || Math.round(score / scale.step) * scale.step !== score) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [component],
+        message: `${data.testType.toUpperCase()} ${component} score must be between ${min} and ${max} in steps of ${scale.step}`,
+      });
+    }
+  }
+}
+
+// Student's English test result for POST /api/courses/eligibility.
+// Sub-scores are optional for tests that do not report all four skills; the overall score stands in for them.
+export const englishEligibilitySchema = z.object({
+  testType: z.enum(ENGLISH_TESTS).default("ielts"),
+  overall: z.coerce.number(),
+  listening: z.coerce.number().optional(),
+  reading: z.coerce.number().optional(),
+  writing: z.coerce.number().optional(),
+  speaking: z.coerce.number().optional(),
+  faculty: z.string().trim().optional(),
+  level: z.string().trim().optional(),
+}).superRefine(withinTestScale);
+
+const requirementScore = z.union([z.number(), z.string()]).transform(String);
+
+export const insertCourseEnglishRequirementSchema = createInsertSchema(courseEnglishRequirements, {
+  testType: z.enum(ENGLISH_TESTS).refine((test) => test !== "ielts", {
+    message: "IELTS requirements are set on the course itself",
+  }),
+  overall: requirementScore,
+  listening: requirementScore.nullish(),
+  reading: requirementScore.nullish(),
+  writing: requirementScore.nullish(),
+  speaking: requirementScore.nullish(),
+}).omit({
+  id: true,
+  courseId: true,
+  createdAt: true,
+}).superRefine(withinTestScale);
+
+export const englishTestEquivalenceRowSchema = z.object({
+  component: z.enum(IELTS_COMPONENTS).default("overall"),
+  ieltsBand: z.coerce.number().min(0).max(9).multipleOf(0.5),
+  minScore: z.coerce.number().min(0),
+});
+
+export const ELIGIBILITY_STATUSES = ["eligible", "pre_sessional", "not_eligible"] as const;
+
+// Students and counselors book across these zones; London observes daylight saving, Dhaka doesn't
+export const APPOINTMENT_TIMEZONES = ["Asia/Dhaka", "Europe/London"] as const;
+export const APPOINTMENT_STATUSES = ["booked", "cancelled", "completed"] as const;
+
+const clockTime = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Times must be HH:MM");
+
+export const counselorAvailabilitySchema = z.array(z.object({
+  weekday: z.number().int().min(0).max(6),
+  startTime: clockTime,
+  endTime: clockTime,
+  slotMinutes: z.number().int().min(15).max(120).default(30),
+}).refine((window) => window.startTime < window.endTime, {
+  message: "Availability must end after it starts",
+  path: ["endTime"],
+}));
+
+export const insertCounselorTimeOffSchema = createInsertSchema(counselorTimeOff, {
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+}).omit({
+  id: true,
+  counselorId: true,
+  createdAt: true,
+}).refine((off) => off.startsAt < off.endsAt, {
+  message: "Time off must end after it starts",
+  path: ["endsAt"],
+});
+
+export const counselorRatingSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().trim().max(1000).optional(),
+});
+
+// What a student is looking for; course ids fill in faculty, level and university
+export const counselorMatchSchema = z.object({
+  language: z.string().trim().optional(),
+  faculty: z.string().trim().optional(),
+  level: z.string().trim().optional(),
+  universityIds: z.array(z.number().int()).optional(),
+  courseIds: z.array(z.number().int()).max(20).optional(),
+});
+
+export const bookAppointmentSchema = z.object({
+  counselorId: z.number().int(),
+  startsAt: z.coerce.date(),
+  timezone: z.enum(APPOINTMENT_TIMEZONES).default("Asia/Dhaka"),
+  notes: z.string().trim().max(1000).optional(),
+});
+
+export const insertCounselorSchema = createInsertSchema(counselors, {
+  languages: z.array(z.string().trim().min(1)).min(1),
+  yearsExperience: z.number().int().min(0).max(60).nullish(),
+  faculties: z.array(z.string().trim().min(1)).nullish(),
+  levels: z.array(z.string().trim().min(1)).nullish(),
+  universityIds: z.array(z.number().int()).nullish(),
+  timezone: z.enum(APPOINTMENT_TIMEZONES).optional(),
+}).omit({
+  id: true,
+  userId: true, // linked through /api/admin/counselors/:id/account, which also grants the role
+  createdAt: true,
+});
+
+// What counselors may change on their own profile from the portal
+export const counselorSelfUpdateSchema = insertCounselorSchema.pick({
+  bio: true,
+  experience: true,
+  languages: true,
+  profileImageUrl: true,
+  whatsapp: true,
+  timezone: true,
+}).extend({
+  profileImageUrl: z.string().url().nullish(),
+}).partial();
+
 export const insertFavoriteSchema = createInsertSchema(favorites).omit({
   id: true,
   createdAt: true,
@@ -278,36 +955,274 @@ export const insertFavoriteSchema = createInsertSchema(favorites).omit({
 
 
 
+// Application pipeline; only the listed transitions are accepted
+export const APPLICATION_STATUSES = [
+  "Draft",
+  "Submitted",
+  "Under Review",
+  "Offer Received",
+  "CAS Issued",
+  "Visa Applied",
+  "Visa Approved",
+  "Visa Refused",
+  "Rejected",
+  "Withdrawn",
+] as const;
+export type ApplicationStatus = typeof APPLICATION_STATUSES[number];
+
+export const APPLICATION_STATUS_TRANSITIONS: Record<ApplicationStatus, readonly ApplicationStatus[]> = {
+  "Draft": ["Submitted", "Withdrawn"],
+  "Submitted": ["Under Review", "Withdrawn"],
+  "Under Review": ["Offer Received", "Rejected", "Withdrawn"],
+  "Offer Received": ["CAS Issued", "Withdrawn"],
+  "CAS Issued": ["Visa Applied", "Withdrawn"],
+  "Visa Applied": ["Visa Approved", "Visa Refused", "Withdrawn"],
+  "Visa Refused": ["Visa Applied", "Withdrawn"],
+  "Visa Approved": [],
+  "Rejected": [],
+  "Withdrawn": [],
+};
+
 export const insertApplicationSchema = createInsertSchema(applications).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const APPLICATION_CHOICE_STATUSES = [
+  "Pending",
+  "Applied",
+  "Offer Received",
+  "Unsuccessful",
+  "Offer Accepted",
+  "Offer Declined",
+  "Withdrawn",
+] as const;
+export const OFFER_TYPES = ["conditional", "unconditional"] as const;
+
+export const insertApplicationChoiceSchema = createInsertSchema(applicationChoices, {
+  status: z.enum(APPLICATION_CHOICE_STATUSES),
+  offerType: z.enum(OFFER_TYPES),
+  decisionDate: z.coerce.date(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const DOCUMENT_TYPES = [
+  "passport",
+  "transcript",
+  "english_test",
+  "sop",
+  "cv",
+  "reference_letter",
+  "financial_statement",
+  "tb_certificate",
+  "other",
+] as const;
+export type DocumentType = typeof DOCUMENT_TYPES[number];
+export const DOCUMENT_REVIEW_STATUSES = ["pending", "accepted", "rejected"] as const;
+
+export const insertApplicationDocumentSchema = createInsertSchema(applicationDocuments, {
+  type: z.enum(DOCUMENT_TYPES),
+  reviewStatus: z.enum(DOCUMENT_REVIEW_STATUSES),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
   createdAt: true,
 });
 
+export const NOTIFICATION_TYPES = ["info", "application", "appointment", "lead", "deadline", "critical"] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// queued -> sending -> sent; bounced when the recipient's server rejects the email, and a hard bounce
+// suppresses further email to that address until an admin clears it; failed once retries run out
+export const EMAIL_STATUSES = ["queued", "sending", "sent", "failed", "bounced", "suppressed"] as const;
+export type EmailStatus = typeof EMAIL_STATUSES[number];
+
+// hard: the address itself is bad (unknown mailbox); soft: temporary (mailbox full, greylisting)
+export const EMAIL_BOUNCE_TYPES = ["hard", "soft"] as const;
+
+export const insertEmailOutboxSchema = createInsertSchema(emailOutbox, {
+  status: z.enum(EMAIL_STATUSES),
+  bounceType: z.enum(EMAIL_BOUNCE_TYPES),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const emailBounceSchema = z.object({
+  messageId: z.string().min(1),
+  type: z.enum(EMAIL_BOUNCE_TYPES),
+  reason: z.string().max(1000).optional(),
+});
+
 export const insertTutorialSchema = createInsertSchema(tutorials).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertLeadSchema = createInsertSchema(leads).omit({
+export const LEAD_STATUSES = ["new", "contacted", "interested", "converted", "closed"] as const;
+export const LEAD_PRIORITIES = ["low", "medium", "high"] as const;
+
+export const insertLeadSchema = createInsertSchema(leads, {
+  email: (schema) => schema.email.email(),
+  status: z.enum(LEAD_STATUSES),
+  priority: z.enum(LEAD_PRIORITIES),
+  interestedCourses: z.array(z.string()),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertAdminUserSchema = createInsertSchema(adminUsers).omit({
+// Admin edits; assignment and conversion have their own endpoints so their notifications and activity are recorded
+export const LEAD_WORKFLOW_FIELDS = ["assignedTo", "assignedAt", "convertedUserId", "convertedAt", "conversionType"] as const;
+
+export const updateLeadSchema = insertLeadSchema
+  .omit({
+    assignedTo: true,
+    assignedAt: true,
+    convertedUserId: true,
+    convertedAt: true,
+    conversionType: true,
+  })
+  .extend({
+    status: z.enum(LEAD_STATUSES).exclude(["converted"]),
+  })
+  .partial();
+
+// Public "request a callback" form; `website` is a honeypot that real visitors never see
+export const publicLeadCaptureSchema = z.object({
+  firstName: z.string().trim().min(1).max(100),
+  lastName: z.string().trim().max(100).optional(),
+  email: z.string().trim().toLowerCase().email().max(255),
+  phone: z.string().trim().max(30).optional(),
+  interestedCourses: z.array(z.string().max(255)).max(10).optional(),
+  message: z.string().max(2000).optional(),
+  preferredLanguage: z.string().max(50).optional(),
+  source: z.string().max(50).default("website"),
+  referredBy: z.string().max(255).optional(),
+  utmSource: z.string().max(100).optional(),
+  utmMedium: z.string().max(100).optional(),
+  utmCampaign: z.string().max(255).optional(),
+  utmTerm: z.string().max(255).optional(),
+  utmContent: z.string().max(255).optional(),
+  website: z.string().optional(),
+});
+
+export const ADMIN_ROLES = ["super_admin", "admin", "counselor"] as const;
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+export const PERMISSIONS = [
+  "users:read",
+  "analytics:read",
+  "applications:read",
+  "applications:update",
+  "applications:assign",
+  "leads:read",
+  "leads:write",
+  "leads:assign",
+  "leads:import",
+  "leads:convert",
+  "notifications:broadcast",
+  "settings:manage",
+  "catalogue:manage",
+  "appointments:manage",
+  "messages:send",
+  "roles:manage",
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+// Permissions granted by each role; adminUsers.permissions adds extra grants on top
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  super_admin: PERMISSIONS,
+  admin: PERMISSIONS.filter((permission) => permission !== "roles:manage"),
+  counselor: [
+    "applications:read",
+    "applications:update",
+    "leads:read",
+    "leads:write",
+    "leads:convert",
+    "appointments:manage",
+    "messages:send",
+  ],
+};
+
+export const insertAdminUserSchema = createInsertSchema(adminUsers, {
+  role: z.enum(ADMIN_ROLES),
+  permissions: z.array(z.enum(PERMISSIONS)),
+}).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertLeadActivitySchema = createInsertSchema(leadActivities).omit({
+export const LEAD_ACTIVITY_TYPES = ["email", "whatsapp", "sms", "call", "note", "meeting", "conversion", "assignment"] as const;
+export const LEAD_ACTIVITY_STATUSES = ["scheduled", "completed", "failed"] as const;
+
+export const insertLeadActivitySchema = createInsertSchema(leadActivities, {
+  type: z.enum(LEAD_ACTIVITY_TYPES),
+  status: z.enum(LEAD_ACTIVITY_STATUSES),
+  scheduledAt: z.coerce.date(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const MESSAGE_CHANNELS = ["whatsapp", "sms"] as const;
+export type MessageChannel = typeof MESSAGE_CHANNELS[number];
+
+// queued -> sending -> sent -> delivered; failed once retries run out or the provider rejects outright
+export const MESSAGE_STATUSES = ["queued", "sending", "sent", "delivered", "failed"] as const;
+export type MessageStatus = typeof MESSAGE_STATUSES[number];
+
+// Wording lives in server/messageTemplates.ts
+export const MESSAGE_TEMPLATES = [
+  "welcome",
+  "follow_up",
+  "document_reminder",
+  "appointment_reminder",
+  "application_update",
+  "custom",
+] as const;
+export type MessageTemplate = typeof MESSAGE_TEMPLATES[number];
+
+export const insertOutboundMessageSchema = createInsertSchema(outboundMessages, {
+  channel: z.enum(MESSAGE_CHANNELS),
+  template: z.enum(MESSAGE_TEMPLATES),
+  status: z.enum(MESSAGE_STATUSES),
+}).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
+});
+
+export const sendMessageSchema = z.object({
+  channel: z.enum(MESSAGE_CHANNELS).default("whatsapp"),
+  template: z.enum(MESSAGE_TEMPLATES),
+  variables: z.record(z.string().trim().max(500)).default({}),
+});
+
+export const messageStatusCallbackSchema = z.object({
+  providerMessageId: z.string().min(1),
+  status: z.enum(["sent", "delivered", "failed"]),
+  error: z.string().optional(),
+});
+
+export const LEAD_ASSIGNMENT_STRATEGIES = ["round_robin", "least_loaded"] as const;
+
+export const insertLeadAssignmentSettingsSchema = createInsertSchema(leadAssignmentSettings, {
+  strategy: z.enum(LEAD_ASSIGNMENT_STRATEGIES),
+  maxOpenLeads: z.number().int().positive(),
+}).omit({
+  id: true,
+  updatedAt: true,
 });
 
 // Types
@@ -325,6 +1240,30 @@ export type InsertFavorite = z.infer<typeof insertFavoriteSchema>;
 
 export type Application = typeof applications.$inferSelect;
 export type InsertApplication = z.infer<typeof insertApplicationSchema>;
+export type ApplicationChoice = typeof applicationChoices.$inferSelect;
+export type InsertApplicationChoice = z.infer<typeof insertApplicationChoiceSchema>;
+export type ApplicationDocument = typeof applicationDocuments.$inferSelect;
+export type InsertApplicationDocument = z.infer<typeof insertApplicationDocumentSchema>;
+export type ApplicationStatusHistory = typeof applicationStatusHistory.$inferSelect;
+export type CourseEnglishRequirement = typeof courseEnglishRequirements.$inferSelect;
+export type InsertCourseEnglishRequirement = z.infer<typeof insertCourseEnglishRequirementSchema>;
+export type EnglishTestEquivalence = typeof englishTestEquivalences.$inferSelect;
+export type EnglishTestEquivalenceRow = z.infer<typeof englishTestEquivalenceRowSchema>;
+export type Scholarship = typeof scholarships.$inferSelect;
+export type InsertScholarship = z.infer<typeof insertScholarshipSchema>;
+export type ScholarshipSearchParams = z.infer<typeof scholarshipSearchSchema>;
+export type StudentProfile = z.infer<typeof studentProfileSchema>;
+export type CounselorRating = typeof counselorRatings.$inferSelect;
+export type CounselorMatchCriteria = z.infer<typeof counselorMatchSchema>;
+export type CounselorAvailability = typeof counselorAvailability.$inferSelect;
+export type CounselorAvailabilityWindow = z.infer<typeof counselorAvailabilitySchema>[number];
+export type CounselorTimeOff = typeof counselorTimeOff.$inferSelect;
+export type InsertCounselorTimeOff = z.infer<typeof insertCounselorTimeOffSchema>;
+export type Appointment = typeof appointments.$inferSelect;
+export type CourseIntake = typeof courseIntakes.$inferSelect;
+export type InsertCourseIntake = z.infer<typeof insertCourseIntakeSchema>;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type Tutorial = typeof tutorials.$inferSelect;
@@ -335,10 +1274,170 @@ export type CourseWithUniversity = Course & {
   university: University;
 };
 
+// Tuition bounds are in `tuitionCurrency` (GBP when omitted)
+export type CourseFilters = {
+  search?: string;
+  faculty?: string;
+  level?: string;
+  ieltsScore?: string;
+  minTuition?: number;
+  maxTuition?: number;
+  tuitionCurrency?: string;
+  intake?: string; // YYYY-MM; only courses with an open intake that month
+  includeInactive?: boolean;
+};
+
+export type DisplayTuition = {
+  amount: string;
+  currency: string;
+  rate: number;
+  rateDate: string | null; // null when no conversion was needed
+};
+
+export type ScholarshipWithInstitution = Scholarship & {
+  university: { id: number; name: string };
+  course: { id: number; name: string; level: string } | null;
+};
+
+export type ScholarshipMatch = ScholarshipWithInstitution & {
+  unverified: ("nationality" | "studyLevel" | "academicGrade")[]; // criteria the profile can't confirm yet
+};
+
+export type CounselorProfile = Counselor & {
+  rating: { average: number | null; count: number };
+  workload: { openLeads: number; activeApplications: number; upcomingAppointments: number };
+};
+
+export type CounselorMatch = {
+  counselor: CounselorProfile;
+  score: number;
+  reasons: string[];
+  nextAvailableSlot: string | null;
+};
+
+export type AppointmentWithParties = Appointment & {
+  counselor: { id: number; name: string; userId: string | null; timezone: string | null };
+  student: { id: string; firstName: string | null; lastName: string | null; email: string | null };
+};
+
+export type CourseWithIntakes = CourseWithUniversity & {
+  intakes: CourseIntake[];
+};
+
+export type CourseSearchParams = z.infer<typeof courseSearchSchema>;
+
+export type CourseSearchHit = CourseWithUniversity & {
+  rank: number;
+};
+
+export type FacetCount = {
+  value: string;
+  count: number;
+};
+
+export type CourseSearchResult = {
+  items: CourseSearchHit[];
+  total: number;
+  limit: number;
+  offset: number;
+  nextOffset: number | null;
+  facets: {
+    faculty: FacetCount[];
+    level: FacetCount[];
+    city: FacetCount[];
+  };
+};
+
+export type EnglishTestScores = { testType: EnglishTest; overall: number } & Partial<Record<Exclude<IeltsComponent, "overall">, number>>;
+
+export type IeltsShortfall = {
+  testType: EnglishTest; // scale of required/actual; IELTS when compared through the equivalence table
+  component: IeltsComponent;
+  required: number;
+  actual: number;
+  gap: number;
+};
+
+export type CourseEligibility = {
+  course: CourseWithUniversity;
+  status: typeof ELIGIBILITY_STATUSES[number];
+  comparable: boolean; // false when the test has no equivalence table and the course lists only IELTS, or a required sub-score is missing
+  shortfalls: IeltsShortfall[];
+  missingComponents: IeltsComponent[]; // required components the student gave no score for
+};
+
+export type EligibilityReport = {
+  testType: EnglishTest;
+  preSessionalBandGap: number;
+  eligible: CourseEligibility[];
+  preSessional: CourseEligibility[];
+  notEligible: CourseEligibility[];
+};
+
+export type EnglishRequirement = {
+  testType: EnglishTest;
+  overall: number;
+  listening: number | null;
+  reading: number | null;
+  writing: number | null;
+  speaking: number | null;
+  source: "course" | "equivalence";
+};
+
+export type CourseWithEnglishRequirements = CourseWithUniversity & {
+  englishRequirements: EnglishRequirement[];
+};
+
 export type FavoriteWithCourse = Favorite & {
   course: CourseWithUniversity;
 };
 
+export type ApplicationChoiceWithCourse = ApplicationChoice & {
+  course: CourseWithUniversity;
+};
+
+export type ApplicationWithChoices = Application & {
+  choices: ApplicationChoiceWithCourse[];
+  courseDetails: { id: number; name: string; universityName: string | null }[];
+};
+
+export type DocumentChecklistItem = {
+  type: DocumentType;
+  status: "missing" | "pending" | "accepted" | "rejected";
+  documentId?: number;
+  reviewComment?: string | null;
+};
+
+export type DocumentChecklist = {
+  applicationStatus: string | null;
+  items: DocumentChecklistItem[];
+  missing: DocumentType[];
+  complete: boolean;
+};
+
+export type StageDuration = {
+  stage: string;
+  completedStays: number;
+  currentlyInStage: number;
+  averageHours: number | null;
+};
+
+export type SlaBreach = {
+  applicationId: number;
+  stage: string;
+  enteredAt: Date;
+  leftAt: Date | null;
+  workingHoursElapsed: number;
+  slaWorkingHours: number;
+  description: string;
+};
+
+export type ApplicationSlaReport = {
+  since: Date;
+  stages: StageDuration[];
+  breaches: SlaBreach[];
+};
+
 
 
 // CRM Types
@@ -350,12 +1449,121 @@ export type LeadActivity = typeof leadActivities.$inferSelect;
 export type InsertLeadActivity = z.infer<typeof insertLeadActivitySchema>;
 
 // Extended CRM types
+export type PublicLeadCapture = z.infer<typeof publicLeadCaptureSchema>;
+
 export type LeadWithActivities = Lead & {
   activities: LeadActivity[];
   convertedUser?: User;
   assignedToUser?: User;
 };
 
+export type LeadActivityWithLead = LeadActivity & {
+  lead: Lead;
+};
+
+export type LeadAssignmentSettings = typeof leadAssignmentSettings.$inferSelect;
+export type InsertLeadAssignmentSettings = z.infer<typeof insertLeadAssignmentSettingsSchema>;
+
+export type AssignmentCandidate = {
+  userId: string;
+  name: string;
+  languages: string[];
+  openLeads: number;
+  lastAssignedAt: Date | null;
+};
+
+export type LeadConversionResult = {
+  lead: Lead;
+  user: User;
+  accountExisted: boolean;
+  favorites: Favorite[];
+  application?: Application;
+};
+
+export type LeadConversionStats = {
+  totalConverted: number;
+  newAccounts: number;
+  existingAccounts: number;
+};
+
+export type CatalogueImportRowResult = {
+  row: number;
+  status: "created" | "updated" | "rejected";
+  universityCode?: string;
+  courseCode?: string;
+  courseId?: number;
+  errors?: string[];
+};
+
+// One accepted import row, applied together with the rest of the import in a single transaction
+export type CatalogueWrite = {
+  universityCode: string;
+  universityId: number | null; // null until the first write naming the code creates it
+  university?: InsertUniversity; // details to create or update the university with
+  courseId?: number; // existing course to update
+  course: Omit<InsertCourse, "universityId">;
+};
+
+export type CatalogueImportReport = {
+  format: "csv" | "json";
+  dryRun: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  rejected: number;
+  universitiesCreated: number;
+  rows: CatalogueImportRowResult[];
+};
+
+export type LeadImportRowResult = {
+  row: number;
+  status: "created" | "merged" | "rejected";
+  leadId?: number;
+  email?: string;
+  errors?: string[];
+  warnings?: string[];
+};
+
+export type LeadImportReport = {
+  source: string;
+  dryRun: boolean;
+  total: number;
+  created: number;
+  merged: number;
+  rejected: number;
+  rows: LeadImportRowResult[];
+};
+
+export type LeadFilters = {
+  status?: string;
+  priority?: string;
+  source?: string;
+  assignedTo?: string;
+  search?: string;
+  includeArchived?: boolean;
+};
+
+export type EmailOutbox = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutbox = z.infer<typeof insertEmailOutboxSchema>;
+export type EmailBounce = z.infer<typeof emailBounceSchema>;
+
+export type EmailOutboxFilters = {
+  status?: string;
+  userId?: string;
+};
+
+export type OutboundMessage = typeof outboundMessages.$inferSelect;
+export type InsertOutboundMessage = z.infer<typeof insertOutboundMessageSchema>;
+export type SendMessage = z.infer<typeof sendMessageSchema>;
+export type MessageStatusCallback = z.infer<typeof messageStatusCallbackSchema>;
+
+export type OutboundMessageFilters = {
+  leadId?: number;
+  userId?: string;
+  sentBy?: string;
+  status?: string;
+};
+
 export type AdminUserWithUser = AdminUser & {
   user: User;
 };